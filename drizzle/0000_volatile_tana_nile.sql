@@ -4,6 +4,7 @@ CREATE TABLE "conversations" (
 	"name" text,
 	"description" text,
 	"avatar" text,
+	"context" jsonb,
 	"visibility" text DEFAULT 'private' NOT NULL,
 	"trust_radius" text,
 	"created_by" text NOT NULL,
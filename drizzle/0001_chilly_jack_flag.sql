@@ -0,0 +1,14 @@
+CREATE TABLE "presence" (
+	"did" text PRIMARY KEY NOT NULL,
+	"visibility" text DEFAULT 'shared' NOT NULL,
+	"last_seen_at" timestamp with time zone,
+	"online_until" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "presence_leases" (
+	"did" text NOT NULL,
+	"instance_id" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "presence_leases_did_instance_id_pk" PRIMARY KEY("did","instance_id")
+);
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "message_edits" (
+	"id" text PRIMARY KEY NOT NULL,
+	"message_id" text NOT NULL,
+	"content" jsonb NOT NULL,
+	"edited_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "message_edits" ADD CONSTRAINT "message_edits_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_message_edits_message" ON "message_edits" USING btree ("message_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "change_log" (
+	"seq" bigserial PRIMARY KEY NOT NULL,
+	"tx_id" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL,
+	"conversation_id" text,
+	"did" text,
+	"type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_change_log_conversation" ON "change_log" USING btree ("conversation_id","seq");--> statement-breakpoint
+CREATE INDEX "idx_change_log_did" ON "change_log" USING btree ("did","seq");--> statement-breakpoint
+CREATE INDEX "idx_change_log_tx" ON "change_log" USING btree ("tx_id","seq");
\ No newline at end of file
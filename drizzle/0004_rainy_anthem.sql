@@ -0,0 +1 @@
+CREATE INDEX "idx_messages_conversation_keyset" ON "messages" USING btree ("conversation_id","created_at","id");
\ No newline at end of file
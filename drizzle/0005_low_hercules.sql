@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "client_message_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_messages_client_id" ON "messages" USING btree ("conversation_id","from_did","client_message_id");
\ No newline at end of file
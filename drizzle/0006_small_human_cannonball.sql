@@ -0,0 +1,14 @@
+CREATE TABLE "sender_key_distributions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"from_did" text NOT NULL,
+	"to_did" text NOT NULL,
+	"key_epoch" integer NOT NULL,
+	"content" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "key_epoch" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sender_key_distributions" ADD CONSTRAINT "sender_key_distributions_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_sender_key_distributions_pair" ON "sender_key_distributions" USING btree ("conversation_id","key_epoch","from_did","to_did");--> statement-breakpoint
+CREATE INDEX "idx_sender_key_distributions_recipient" ON "sender_key_distributions" USING btree ("conversation_id","to_did");
\ No newline at end of file
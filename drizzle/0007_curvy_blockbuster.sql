@@ -0,0 +1,9 @@
+CREATE TABLE "key_changes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"did" text NOT NULL,
+	"previous_identity_key" text NOT NULL,
+	"identity_key" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_key_changes_did" ON "key_changes" USING btree ("did");
\ No newline at end of file
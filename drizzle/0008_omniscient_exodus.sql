@@ -0,0 +1,4 @@
+ALTER TABLE "public_keys" ADD COLUMN "pre_keys_low" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Claimed keys were only ever marked; they are deleted on claim from now on
+DELETE FROM "pre_keys" WHERE "used" = true;--> statement-breakpoint
+ALTER TABLE "pre_keys" DROP COLUMN "used";
\ No newline at end of file
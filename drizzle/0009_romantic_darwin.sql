@@ -0,0 +1,36 @@
+CREATE TABLE "devices" (
+	"id" text PRIMARY KEY NOT NULL,
+	"did" text NOT NULL,
+	"name" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"link_code" text,
+	"linked_by" text,
+	"link_payload" jsonb,
+	"is_first" boolean DEFAULT false NOT NULL,
+	"recovered" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"approved_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "pre_keys" DROP CONSTRAINT "pre_keys_did_public_keys_did_fk";--> statement-breakpoint
+ALTER TABLE "public_keys" DROP CONSTRAINT "public_keys_pkey";--> statement-breakpoint
+ALTER TABLE "key_changes" ADD COLUMN "device_id" text;--> statement-breakpoint
+ALTER TABLE "pre_keys" ADD COLUMN "device_id" text;--> statement-breakpoint
+ALTER TABLE "public_keys" ADD COLUMN "device_id" text;--> statement-breakpoint
+-- Existing bundles become each DID's first (active) device
+INSERT INTO "devices" ("id", "did", "name", "status", "is_first", "approved_at")
+	SELECT 'dev_' || substr(md5("did"), 1, 24), "did", 'Primary device', 'active', true, now() FROM "public_keys";--> statement-breakpoint
+UPDATE "public_keys" SET "device_id" = 'dev_' || substr(md5("did"), 1, 24);--> statement-breakpoint
+UPDATE "pre_keys" SET "device_id" = 'dev_' || substr(md5("did"), 1, 24);--> statement-breakpoint
+ALTER TABLE "pre_keys" ALTER COLUMN "device_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "public_keys" ADD PRIMARY KEY ("device_id");--> statement-breakpoint
+CREATE INDEX "idx_devices_did" ON "devices" USING btree ("did");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_devices_first" ON "devices" USING btree ("did") WHERE "devices"."is_first";--> statement-breakpoint
+ALTER TABLE "pre_keys" ADD CONSTRAINT "pre_keys_device_id_public_keys_device_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."public_keys"("device_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "public_keys" ADD CONSTRAINT "public_keys_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_pre_keys_device" ON "pre_keys" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "idx_public_keys_did" ON "public_keys" USING btree ("did");--> statement-breakpoint
+DROP INDEX "idx_sender_key_distributions_pair";--> statement-breakpoint
+ALTER TABLE "sender_key_distributions" ADD COLUMN "from_device_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_sender_key_distributions_pair" ON "sender_key_distributions" USING btree ("conversation_id","key_epoch","from_did","from_device_id","to_did");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "key_verifications" (
+	"did" text NOT NULL,
+	"contact_did" text NOT NULL,
+	"safety_number" text NOT NULL,
+	"verified_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "key_verifications_did_contact_did_pk" PRIMARY KEY("did","contact_did")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_key_verifications_contact" ON "key_verifications" USING btree ("contact_did");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "key_log" (
+	"position" integer PRIMARY KEY NOT NULL,
+	"did" text NOT NULL,
+	"device_id" text NOT NULL,
+	"identity_key" text NOT NULL,
+	"signed_pre_key" text NOT NULL,
+	"signature" text NOT NULL,
+	"leaf_hash" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "key_log_nodes" (
+	"level" integer NOT NULL,
+	"index" integer NOT NULL,
+	"hash" text NOT NULL,
+	CONSTRAINT "key_log_nodes_level_index_pk" PRIMARY KEY("level","index")
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limits" (
+	"key" text PRIMARY KEY NOT NULL,
+	"window_start" timestamp with time zone NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_key_log_did" ON "key_log" USING btree ("did");--> statement-breakpoint
+CREATE INDEX "idx_key_log_device" ON "key_log" USING btree ("device_id");
\ No newline at end of file
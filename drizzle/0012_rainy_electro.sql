@@ -0,0 +1,19 @@
+CREATE TABLE "attachments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"conversation_id" text,
+	"message_id" text,
+	"uploader_did" text NOT NULL,
+	"size" integer NOT NULL,
+	"sha256" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"chunk_size" integer NOT NULL,
+	"uploaded_chunks" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'uploading' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_attachments_conversation" ON "attachments" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "idx_attachments_message" ON "attachments" USING btree ("message_id");
\ No newline at end of file
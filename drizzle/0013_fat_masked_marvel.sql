@@ -0,0 +1,2 @@
+-- Nothing wrote trust_radius before; keep only values that are plain hop counts
+ALTER TABLE "conversations" ALTER COLUMN "trust_radius" SET DATA TYPE integer USING (CASE WHEN "trust_radius" ~ '^[0-9]+$' THEN "trust_radius"::integer END);
@@ -0,0 +1,15 @@
+CREATE TABLE "trust_attestations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"issuer_did" text NOT NULL,
+	"subject_did" text NOT NULL,
+	"issued_at" text NOT NULL,
+	"signature" text NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "trust_attestations" ADD CONSTRAINT "trust_attestations_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_trust_attestations_pair" ON "trust_attestations" USING btree ("conversation_id","issuer_did","subject_did");--> statement-breakpoint
+CREATE INDEX "idx_trust_attestations_issuer" ON "trust_attestations" USING btree ("issuer_did");--> statement-breakpoint
+CREATE INDEX "idx_trust_attestations_subject" ON "trust_attestations" USING btree ("subject_did");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "blocks" (
+	"did" text NOT NULL,
+	"blocked_did" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "blocks_did_blocked_did_pk" PRIMARY KEY("did","blocked_did")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "request_status" text;--> statement-breakpoint
+CREATE INDEX "idx_blocks_blocked" ON "blocks" USING btree ("blocked_did");
\ No newline at end of file
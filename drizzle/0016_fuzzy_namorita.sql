@@ -0,0 +1,23 @@
+CREATE TABLE "reports" (
+	"id" text PRIMARY KEY NOT NULL,
+	"reporter_did" text NOT NULL,
+	"reported_did" text NOT NULL,
+	"conversation_id" text,
+	"message_id" text,
+	"reason" text NOT NULL,
+	"details" text,
+	"disclosed_plaintext" text,
+	"franking_key" text,
+	"verified" boolean DEFAULT false NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"resolution" text,
+	"reviewed_by" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "commitment" text;--> statement-breakpoint
+CREATE INDEX "idx_reports_queue" ON "reports" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "idx_reports_reporter" ON "reports" USING btree ("reporter_did");--> statement-breakpoint
+CREATE INDEX "idx_reports_reported" ON "reports" USING btree ("reported_did");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_reports_reporter_message" ON "reports" USING btree ("reporter_did","message_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Custom server - Next.js plus the /ws real-time endpoint on the same port
+ */
+
+import { createServer } from 'http';
+import next from 'next';
+import { attachWebSocketServer } from './src/lib/ws';
+import { startAttachmentCollector } from './src/lib/attachments';
+
+const dev = process.env.NODE_ENV !== 'production';
+const port = parseInt(process.env.PORT || '3011');
+
+const app = next({ dev, port });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  const server = createServer((req, res) => handle(req, res));
+
+  attachWebSocketServer(server, app.getUpgradeHandler());
+  startAttachmentCollector();
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://localhost:${port}`);
+  });
+});
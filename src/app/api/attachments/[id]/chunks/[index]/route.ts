@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db, attachments } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { chunkCount, expectedChunkLength, readChunkBody, storeChunk } from '@/lib/attachments';
+
+/**
+ * PUT /api/attachments/:id/chunks/:index - Upload one chunk (uploader only)
+ * Body: raw ciphertext bytes. Every chunk is `chunkSize` bytes except the last.
+ * Chunks go in order; a 409 names the chunk to send next.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: attachmentId, index: indexParam } = await params;
+
+  try {
+    const attachment = await db.query.attachments.findFirst({
+      where: eq(attachments.id, attachmentId),
+    });
+
+    if (!attachment || attachment.uploaderDid !== identity.id) {
+      return errorResponse('Attachment not found', 404);
+    }
+
+    if (attachment.status !== 'uploading') {
+      return errorResponse('Upload already completed', 409);
+    }
+
+    const index = Number(indexParam);
+    if (!Number.isInteger(index) || index < 0 || index >= chunkCount(attachment)) {
+      return errorResponse(`index must be between 0 and ${chunkCount(attachment) - 1}`);
+    }
+
+    // Refuse oversized bodies before reading them, and stop reading at the
+    // chunk's length when Content-Length is missing or wrong
+    const maxLength = expectedChunkLength(attachment, index);
+    const declaredLength = Number(request.headers.get('Content-Length'));
+    const data = declaredLength > maxLength ? null : await readChunkBody(request.body, maxLength);
+    if (!data) {
+      return errorResponse(`Chunk ${index} must be ${maxLength} bytes`, 413);
+    }
+
+    const result = await storeChunk(attachment, index, data);
+
+    if ('error' in result) {
+      return jsonResponse({ error: result.error, nextChunk: attachment.uploadedChunks }, result.status);
+    }
+
+    return jsonResponse({ uploadedChunks: result.uploadedChunks, chunkCount: chunkCount(attachment) });
+  } catch (error) {
+    console.error('Failed to upload chunk:', error);
+    return errorResponse('Failed to upload chunk', 500);
+  }
+}
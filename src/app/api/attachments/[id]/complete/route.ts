@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, attachments } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import {
+  chunkCount,
+  verifyUpload,
+  deleteAttachmentBlobs,
+  toAttachmentView,
+} from '@/lib/attachments';
+
+/**
+ * POST /api/attachments/:id/complete - Finish an upload (uploader only)
+ * The chunks must hash to the declared sha256; otherwise the upload is discarded.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: attachmentId } = await params;
+
+  try {
+    const attachment = await db.query.attachments.findFirst({
+      where: eq(attachments.id, attachmentId),
+    });
+
+    if (!attachment || attachment.uploaderDid !== identity.id) {
+      return errorResponse('Attachment not found', 404);
+    }
+
+    if (attachment.status === 'complete') {
+      return jsonResponse({ attachment: toAttachmentView(attachment) });
+    }
+
+    if (attachment.uploadedChunks < chunkCount(attachment)) {
+      return jsonResponse(
+        { error: 'Upload is missing chunks', nextChunk: attachment.uploadedChunks },
+        409
+      );
+    }
+
+    if (!(await verifyUpload(attachment))) {
+      await db.delete(attachments).where(eq(attachments.id, attachmentId));
+      await deleteAttachmentBlobs(attachment);
+      return errorResponse('Uploaded data does not match sha256; upload discarded');
+    }
+
+    const [updated] = await db
+      .update(attachments)
+      .set({ status: 'complete', completedAt: new Date() })
+      .where(and(eq(attachments.id, attachmentId), eq(attachments.status, 'uploading')))
+      .returning();
+
+    // A concurrent request completed it first
+    const completed = updated ?? await db.query.attachments.findFirst({
+      where: eq(attachments.id, attachmentId),
+    });
+
+    return jsonResponse({ attachment: toAttachmentView(completed ?? attachment) });
+  } catch (error) {
+    console.error('Failed to complete upload:', error);
+    return errorResponse('Failed to complete upload', 500);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, participants, messages, attachments } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { errorResponse } from '@/lib/utils';
+import { readAttachment } from '@/lib/attachments';
+
+/**
+ * GET /api/attachments/:id - Download an attachment's ciphertext
+ * Current participants of its conversation only; until it is sent, only the uploader.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: attachmentId } = await params;
+
+  try {
+    const attachment = await db.query.attachments.findFirst({
+      where: eq(attachments.id, attachmentId),
+    });
+
+    if (!attachment?.conversationId || attachment.status !== 'complete') {
+      return errorResponse('Attachment not found', 404);
+    }
+
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, attachment.conversationId),
+        eq(participants.did, identity.id)
+      ),
+    });
+
+    if (!participant) {
+      return errorResponse('Attachment not found', 404);
+    }
+
+    if (!attachment.messageId) {
+      if (attachment.uploaderDid !== identity.id) {
+        return errorResponse('Attachment not found', 404);
+      }
+    } else {
+      const message = await db.query.messages.findFirst({
+        where: eq(messages.id, attachment.messageId),
+      });
+      if (!message || message.deletedAt) {
+        return errorResponse('Attachment not found', 404);
+      }
+    }
+
+    return new Response(readAttachment(attachment), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(attachment.size),
+        'Cache-Control': 'private, no-store',
+        'X-Content-SHA256': attachment.sha256,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to download attachment:', error);
+    return errorResponse('Failed to download attachment', 500);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants, messages } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { GET, POST, DELETE } from './route';
+import { GET as listConversations, POST as createConversation } from '../conversations/route';
+import { GET as listMessages } from '../conversations/[id]/messages/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const SHARED_ID = 'conv_shared';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: SHARED_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: SHARED_ID, did: ALICE, role: 'owner' },
+    { conversationId: SHARED_ID, did: BOB, role: 'member' },
+  ]);
+  await db.insert(messages).values([
+    { id: 'msg_from_alice', conversationId: SHARED_ID, fromDid: ALICE, content: {} },
+    { id: 'msg_from_bob', conversationId: SHARED_ID, fromDid: BOB, content: {} },
+  ]);
+}, 60_000);
+
+function block(did: string, blockedDid: string) {
+  return POST(authedRequest(did, '/api/blocks', { method: 'POST', body: { did: blockedDid } }));
+}
+
+function create(did: string, body: object) {
+  return createConversation(authedRequest(did, '/api/conversations', { method: 'POST', body }));
+}
+
+describe('/api/blocks', () => {
+  it('blocks a DID once, and not yourself', async () => {
+    expect((await block(ALICE, BOB)).status).toBe(201);
+    expect((await block(ALICE, BOB)).status).toBe(201);
+    expect((await block(ALICE, ALICE)).status).toBe(400);
+
+    const { blocks } = await (await GET(authedRequest(ALICE, '/api/blocks'))).json();
+    expect(blocks.map((row: { did: string }) => row.did)).toEqual([BOB]);
+  });
+
+  it("silently declines the blocked DID's direct messages", async () => {
+    const response = await create(BOB, { type: 'direct', participantDids: [ALICE] });
+    expect(response.status).toBe(201);
+    expect((await response.json()).conversation.requestStatus).toBe('pending');
+
+    const { conversations: requests } = await (
+      await listConversations(authedRequest(ALICE, '/api/conversations?requests=true'))
+    ).json();
+    expect(requests).toEqual([]);
+  });
+
+  it('keeps the blocked DID from adding me to a group', async () => {
+    const response = await create(BOB, { type: 'group', name: 'Hi', participantDids: [ALICE] });
+    expect(response.status).toBe(403);
+  });
+
+  it('leaves messages from the blocked DID out of shared groups', async () => {
+    const fetch = async (did: string) => {
+      const response = await listMessages(authedRequest(did, `/api/conversations/${SHARED_ID}/messages`), routeParams({ id: SHARED_ID }));
+      return (await response.json()).messages.map((message: { id: string }) => message.id);
+    };
+
+    expect(await fetch(ALICE)).toEqual(['msg_from_alice']);
+    expect(await fetch(BOB)).toEqual(expect.arrayContaining(['msg_from_alice', 'msg_from_bob']));
+  });
+
+  it('unblocks', async () => {
+    const unblock = () => DELETE(authedRequest(ALICE, `/api/blocks?did=${BOB}`, { method: 'DELETE' }));
+    expect((await unblock()).status).toBe(200);
+    expect((await unblock()).status).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { blockDid, unblockDid, listBlocks } from '@/lib/blocks';
+
+/**
+ * GET /api/blocks - List DIDs you have blocked
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const result = await listBlocks(identity.id);
+    return jsonResponse({
+      blocks: result.map((block) => ({ did: block.blockedDid, createdAt: block.createdAt })),
+    });
+  } catch (error) {
+    console.error('Failed to list blocks:', error);
+    return errorResponse('Failed to list blocks', 500);
+  }
+}
+
+/**
+ * POST /api/blocks - Block a DID
+ * Body: { did }
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const body = await request.json();
+    const { did } = body;
+
+    if (!isValidDid(did)) {
+      return errorResponse('Invalid DID');
+    }
+
+    if (did === identity.id) {
+      return errorResponse('Cannot block yourself');
+    }
+
+    await blockDid(identity.id, did);
+
+    return jsonResponse({ did, blocked: true }, 201);
+  } catch (error) {
+    console.error('Failed to block DID:', error);
+    return errorResponse('Failed to block DID', 500);
+  }
+}
+
+/**
+ * DELETE /api/blocks?did=xxx - Unblock a DID
+ */
+export async function DELETE(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const url = new URL(request.url);
+  const did = url.searchParams.get('did');
+
+  if (!did || !isValidDid(did)) {
+    return errorResponse('Invalid or missing DID');
+  }
+
+  try {
+    const removed = await unblockDid(identity.id, did);
+    if (!removed) {
+      return errorResponse('Not blocked', 404);
+    }
+
+    return jsonResponse({ did, blocked: false });
+  } catch (error) {
+    console.error('Failed to unblock DID:', error);
+    return errorResponse('Failed to unblock DID', 500);
+  }
+}
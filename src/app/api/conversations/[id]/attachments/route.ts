@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, participants } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, generateId } from '@/lib/utils';
+import {
+  ATTACHMENT_CHUNK_SIZE,
+  MAX_UNSENT_UPLOAD_BYTES,
+  validateAttachmentMetadata,
+  startUpload,
+  toAttachmentView,
+} from '@/lib/attachments';
+
+/**
+ * POST /api/conversations/:id/attachments - Start an attachment upload
+ * Body: { size, sha256, mimeType } - of the encrypted file
+ * Then PUT each chunk to /api/attachments/:id/chunks/:index (in order) and
+ * POST /api/attachments/:id/complete.
+ * Uploads not yet sent in a message are limited to MAX_UNSENT_UPLOAD_BYTES per
+ * uploader (429 beyond that).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, identity.id)
+      ),
+    });
+
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (participant.role === 'readonly') {
+      return errorResponse('You do not have permission to send messages', 403);
+    }
+
+    const body = await request.json();
+    const invalid = validateAttachmentMetadata(body);
+    if (invalid) {
+      return errorResponse(invalid.error, invalid.status);
+    }
+
+    const attachment = await startUpload({
+      id: generateId('att'),
+      conversationId,
+      uploaderDid: identity.id,
+      size: body.size,
+      sha256: body.sha256.toLowerCase(),
+      mimeType: body.mimeType,
+      chunkSize: ATTACHMENT_CHUNK_SIZE,
+    });
+
+    if (!attachment) {
+      return errorResponse(`Unsent uploads are limited to ${MAX_UNSENT_UPLOAD_BYTES} bytes; send or finish them first`, 429);
+    }
+
+    return jsonResponse({ attachment: toAttachmentView(attachment) }, 201);
+  } catch (error) {
+    console.error('Failed to start attachment upload:', error);
+    return errorResponse('Failed to start attachment upload', 500);
+  }
+}
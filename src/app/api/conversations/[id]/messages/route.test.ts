@@ -0,0 +1,335 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, migrated, conversations, participants, messages, attachments, devices } from '@/test/db';
+import { authedRequest, authPrivateKey, routeParams } from '@/test/auth';
+import { signMessage } from '@/lib/crypto';
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments';
+import { MESSAGE_REQUEST_LIMIT } from '@/lib/requests';
+import { GET as listMessages, POST as sendMessage } from './route';
+import { POST as startUpload } from '../attachments/route';
+import { PUT as uploadChunk } from '../../../attachments/[id]/chunks/[index]/route';
+import { POST as completeUpload } from '../../../attachments/[id]/complete/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CONVERSATION_ID = 'conv_attachments';
+const DIRECT_ID = 'conv_direct';
+const REQUEST_ID = 'conv_request';
+const PAGES_ID = 'conv_pages';
+
+beforeAll(async () => {
+  await migrated;
+  process.env.BLOB_STORE_DIR = mkdtempSync(join(tmpdir(), 'imajin-blobs-'));
+
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', name: 'Files', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+  ]);
+
+  await db.insert(conversations).values({ id: DIRECT_ID, type: 'direct', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: DIRECT_ID, did: ALICE, role: 'member' },
+    { conversationId: DIRECT_ID, did: BOB, role: 'member' },
+  ]);
+  await db.insert(conversations).values({ id: REQUEST_ID, type: 'direct', createdBy: ALICE, requestStatus: 'pending' });
+  await db.insert(participants).values([
+    { conversationId: REQUEST_ID, did: ALICE, role: 'member' },
+    { conversationId: REQUEST_ID, did: 'did:imajin:carol', role: 'member' },
+  ]);
+  await db.insert(devices).values([
+    { id: 'dev_alice_phone', did: ALICE, status: 'active' },
+    { id: 'dev_alice_laptop', did: ALICE, status: 'active' },
+    { id: 'dev_bob_phone', did: BOB, status: 'active' },
+    { id: 'dev_bob_old', did: BOB, status: 'revoked' },
+  ]);
+}, 60_000);
+
+/**
+ * Upload a one-chunk attachment as Alice and return its reference
+ */
+async function upload(bytes: Uint8Array) {
+  const ref = {
+    size: bytes.length,
+    sha256: createHash('sha256').update(bytes).digest('hex'),
+    mimeType: 'application/octet-stream',
+  };
+
+  const started = await startUpload(
+    authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/attachments`, { method: 'POST', body: ref }),
+    routeParams({ id: CONVERSATION_ID })
+  );
+  expect(started.status).toBe(201);
+  const { attachment } = await started.json();
+
+  const chunk = await uploadChunk(
+    authedRequest(ALICE, `/api/attachments/${attachment.id}/chunks/0`, {
+      method: 'PUT',
+      body: bytes,
+      headers: { 'Content-Length': String(bytes.length) },
+    }),
+    routeParams({ id: attachment.id, index: '0' })
+  );
+  expect(chunk.status).toBeLessThan(300);
+
+  const completed = await completeUpload(
+    authedRequest(ALICE, `/api/attachments/${attachment.id}/complete`, { method: 'POST' }),
+    routeParams({ id: attachment.id })
+  );
+  expect(completed.status).toBe(200);
+
+  return { id: attachment.id as string, ...ref };
+}
+
+function send(attachmentRefs: unknown[]) {
+  return sendMessage(
+    authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/messages`, {
+      method: 'POST',
+      body: {
+        content: {
+          encrypted: 'ciphertext',
+          nonce: 'nonce',
+          senderKey: { keyEpoch: 0, keyId: 1, iteration: 0 },
+          attachments: attachmentRefs,
+        },
+      },
+    }),
+    routeParams({ id: CONVERSATION_ID })
+  );
+}
+
+describe('POST /api/conversations/:id/messages with attachments', () => {
+  it('sends a message and attaches its upload to it', async () => {
+    const ref = await upload(new TextEncoder().encode('hello attachment'));
+
+    const response = await send([ref]);
+    expect(response.status).toBe(201);
+    const { message } = await response.json();
+
+    const stored = await db.query.attachments.findFirst({ where: eq(attachments.id, ref.id) });
+    expect(stored?.messageId).toBe(message.id);
+  }, 60_000);
+
+  it('does not keep the message when an attachment was already sent', async () => {
+    const ref = await upload(new TextEncoder().encode('sent once'));
+    const first = await send([ref]);
+    expect(first.status).toBe(201);
+    const { message: original } = await first.json();
+
+    const fresh = await upload(new TextEncoder().encode('not sent yet'));
+    const before = await db.select().from(messages).where(eq(messages.conversationId, CONVERSATION_ID));
+
+    const response = await send([fresh, ref]);
+    expect(response.status).toBe(409);
+
+    const after = await db.select().from(messages).where(eq(messages.conversationId, CONVERSATION_ID));
+    expect(after).toHaveLength(before.length);
+
+    const rows = await db.select().from(attachments);
+    expect(rows.find((row) => row.id === ref.id)?.messageId).toBe(original.id);
+    expect(rows.find((row) => row.id === fresh.id)?.messageId).toBeNull();
+  }, 60_000);
+});
+
+describe('attachment uploads', () => {
+  function start(did: string, size: number) {
+    return startUpload(
+      authedRequest(did, `/api/conversations/${CONVERSATION_ID}/attachments`, {
+        method: 'POST',
+        body: { size, sha256: '00'.repeat(32), mimeType: 'application/octet-stream' },
+      }),
+      routeParams({ id: CONVERSATION_ID })
+    );
+  }
+
+  it('refuses a chunk longer than expected when Content-Length is missing', async () => {
+    const { attachment } = await (await start(ALICE, 4)).json();
+
+    const request = authedRequest(ALICE, `/api/attachments/${attachment.id}/chunks/0`, {
+      method: 'PUT',
+      body: new Uint8Array(1024),
+    });
+    expect(request.headers.get('Content-Length')).toBeNull();
+
+    const response = await uploadChunk(request, routeParams({ id: attachment.id, index: '0' }));
+    expect(response.status).toBe(413);
+  });
+
+  it('limits the bytes a DID has in unsent uploads', async () => {
+    const statuses = await Promise.all([start(BOB, MAX_ATTACHMENT_SIZE), start(BOB, MAX_ATTACHMENT_SIZE), start(BOB, 1)]);
+    expect(statuses.map((response) => response.status).sort()).toEqual([201, 201, 429]);
+
+    expect((await start(ALICE, MAX_ATTACHMENT_SIZE)).status).toBe(201);
+  });
+});
+
+describe('POST /api/conversations/:id/messages in a direct conversation', () => {
+  const envelope = { encrypted: 'ciphertext', nonce: 'nonce' };
+
+  function sendDirect(content: unknown, headers: Record<string, string> = {}) {
+    return sendMessage(
+      authedRequest(ALICE, `/api/conversations/${DIRECT_ID}/messages`, { method: 'POST', body: { content }, headers }),
+      routeParams({ id: DIRECT_ID })
+    );
+  }
+
+  it('needs the sending device', async () => {
+    expect((await sendDirect(envelope)).status).toBe(400);
+  });
+
+  it('needs one envelope per other active device', async () => {
+    const headers = { 'X-Device-Id': 'dev_alice_phone' };
+
+    const single = await sendDirect(envelope, headers);
+    expect(single.status).toBe(409);
+    expect(await single.json()).toMatchObject({
+      missingDevices: expect.arrayContaining(['dev_alice_laptop', 'dev_bob_phone']),
+      extraDevices: [],
+    });
+
+    const stale = await sendDirect({ devices: { dev_alice_laptop: envelope, dev_bob_old: envelope } }, headers);
+    expect(await stale.json()).toMatchObject({ missingDevices: ['dev_bob_phone'], extraDevices: ['dev_bob_old'] });
+
+    const sent = await sendDirect({ devices: { dev_alice_laptop: envelope, dev_bob_phone: envelope } }, headers);
+    expect(sent.status).toBe(201);
+  });
+});
+
+describe('POST /api/conversations/:id/messages in a message request', () => {
+  it('keeps concurrent sends within the request limit', async () => {
+    const envelope = { encrypted: 'ciphertext', nonce: 'nonce' };
+    const responses = await Promise.all(
+      Array.from({ length: MESSAGE_REQUEST_LIMIT + 2 }, () =>
+        sendMessage(
+          authedRequest(ALICE, `/api/conversations/${REQUEST_ID}/messages`, {
+            method: 'POST',
+            body: { content: { devices: { dev_alice_laptop: envelope } } },
+            headers: { 'X-Device-Id': 'dev_alice_phone' },
+          }),
+          routeParams({ id: REQUEST_ID })
+        )
+      )
+    );
+
+    const statuses = responses.map((response) => response.status);
+    expect(statuses.filter((status) => status === 201)).toHaveLength(MESSAGE_REQUEST_LIMIT);
+    expect(statuses.filter((status) => status === 403)).toHaveLength(2);
+    expect(await db.select().from(messages).where(eq(messages.conversationId, REQUEST_ID))).toHaveLength(MESSAGE_REQUEST_LIMIT);
+  });
+});
+
+describe('GET /api/conversations/:id/messages', () => {
+  // Same timestamp throughout, so pages only hold together if ties are broken by ID
+  const ids = Array.from({ length: 7 }, (_, i) => `msg_page_${i}`);
+
+  beforeAll(async () => {
+    await db.insert(conversations).values({ id: PAGES_ID, type: 'group', createdBy: ALICE });
+    await db.insert(participants).values({ conversationId: PAGES_ID, did: ALICE, role: 'owner' });
+    const createdAt = new Date('2024-01-01');
+    await db.insert(messages).values(
+      ids.map((id) => ({ id, conversationId: PAGES_ID, fromDid: ALICE, content: { encrypted: id }, createdAt }))
+    );
+  });
+
+  async function page(query: string) {
+    const response = await listMessages(
+      authedRequest(ALICE, `/api/conversations/${PAGES_ID}/messages?${query}`),
+      routeParams({ id: PAGES_ID })
+    );
+    const body = await response.json();
+    return { status: response.status, ...body, ids: body.messages?.map((message: { id: string }) => message.id) };
+  }
+
+  it('pages back from the latest messages without skipping or repeating any', async () => {
+    const seen: string[] = [];
+    let query = 'limit=3';
+    for (;;) {
+      const { ids: pageIds, hasMore } = await page(query);
+      seen.unshift(...pageIds);
+      if (!hasMore) break;
+      query = `limit=3&before=${pageIds[0]}`;
+    }
+    expect(seen).toEqual(ids);
+  });
+
+  it('pages forward after a message and centres a page around one', async () => {
+    expect(await page('limit=2&after=msg_page_2')).toMatchObject({ ids: ['msg_page_3', 'msg_page_4'], hasMore: true });
+
+    expect(await page('limit=3&around=msg_page_4')).toMatchObject({
+      ids: ['msg_page_3', 'msg_page_4', 'msg_page_5'],
+      hasMoreBefore: true,
+      hasMoreAfter: true,
+    });
+  });
+
+  it('refuses a cursor from another conversation or more than one cursor', async () => {
+    expect((await page('before=msg_page_1&after=msg_page_2')).status).toBe(400);
+
+    const [other] = await db.select().from(messages).where(eq(messages.conversationId, CONVERSATION_ID)).limit(1);
+    expect((await page(`before=${other.id}`)).status).toBe(400);
+  });
+});
+
+describe('POST /api/conversations/:id/messages with a client message ID', () => {
+  const content = { encrypted: 'ciphertext', nonce: 'nonce', senderKey: { keyEpoch: 0, keyId: 1, iteration: 0 } };
+
+  function sendOnce(body: object, headers: Record<string, string> = {}) {
+    return sendMessage(
+      authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/messages`, { method: 'POST', body: { content, ...body }, headers }),
+      routeParams({ id: CONVERSATION_ID })
+    );
+  }
+
+  it('returns the original message when a send is retried', async () => {
+    const first = await sendOnce({ clientMessageId: 'retry-1' });
+    expect(first.status).toBe(201);
+    const { message } = await first.json();
+
+    const retry = await sendOnce({}, { 'Idempotency-Key': 'retry-1' });
+    expect(retry.status).toBe(200);
+    expect(await retry.json()).toMatchObject({ message: { id: message.id }, duplicate: true });
+  });
+
+  it('keeps one message when retries race', async () => {
+    const responses = await Promise.all([1, 2, 3].map(() => sendOnce({ clientMessageId: 'retry-2' })));
+    const sent = await Promise.all(responses.map((response) => response.json()));
+
+    expect(new Set(sent.map(({ message }) => message.id)).size).toBe(1);
+    expect(sent.filter(({ duplicate }) => duplicate)).toHaveLength(2);
+  });
+
+  it('refuses malformed client message IDs', async () => {
+    expect((await sendOnce({ clientMessageId: 'not valid!' })).status).toBe(400);
+  });
+});
+
+describe('POST /api/conversations/:id/messages with a signature', () => {
+  const content = { encrypted: 'signed', nonce: 'nonce', senderKey: { keyEpoch: 0, keyId: 1, iteration: 0 } };
+
+  function sendSigned(signature: string) {
+    return sendMessage(
+      authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/messages`, {
+        method: 'POST',
+        body: { content: { ...content, signature } },
+      }),
+      routeParams({ id: CONVERSATION_ID })
+    );
+  }
+
+  it("accepts a signature by the sender's DID key", async () => {
+    const response = await sendSigned(signMessage(CONVERSATION_ID, ALICE, content, authPrivateKey(ALICE)));
+    expect(response.status).toBe(201);
+  });
+
+  it('refuses a signature by another key, or for another conversation', async () => {
+    expect((await sendSigned(signMessage(CONVERSATION_ID, ALICE, content, authPrivateKey(BOB)))).status).toBe(400);
+    expect((await sendSigned(signMessage(PAGES_ID, ALICE, content, authPrivateKey(ALICE)))).status).toBe(400);
+  });
+});
@@ -1,11 +1,52 @@
 import { NextRequest } from 'next/server';
-import { eq, and, desc, lt, isNull } from 'drizzle-orm';
-import { db, conversations, participants, messages } from '@/db';
+import { eq, and, or, asc, desc, gt, isNull, notInArray, sql } from 'drizzle-orm';
+import { db, conversations, participants, messages, type Message } from '@/db';
 import { requireAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, generateId } from '@/lib/utils';
+import { publishMessage } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { toTombstone, hasValidSignature, getCommitment } from '@/lib/messaging';
+import { usesCurrentSenderKey } from '@/lib/rekey';
+import { requireDevice, checkDeviceFanOut } from '@/lib/devices';
+import { parseAttachmentRefs, claimAttachments } from '@/lib/attachments';
+import { checkMessageRequest, guardMessageRequest, messageRequestLimitError } from '@/lib/requests';
+import { blockedBy, hasBlocked } from '@/lib/blocks';
+
+/**
+ * Keyset predicates on (createdAt, id) - ties on createdAt are broken by ID.
+ * The cursor row is read back in SQL because JS dates drop Postgres' microseconds.
+ */
+function olderThan(cursorId: string) {
+  return sql`(${messages.createdAt}, ${messages.id}) < (select c.created_at, c.id from ${messages} c where c.id = ${cursorId})`;
+}
+
+function newerThan(cursorId: string) {
+  return sql`(${messages.createdAt}, ${messages.id}) > (select c.created_at, c.id from ${messages} c where c.id = ${cursorId})`;
+}
+
+/**
+ * Client message IDs are opaque to the server (UUIDs, ULIDs, ...)
+ */
+function isValidClientMessageId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value);
+}
+
+async function findByClientMessageId(conversationId: string, fromDid: string, clientMessageId: string) {
+  return db.query.messages.findFirst({
+    where: and(
+      eq(messages.conversationId, conversationId),
+      eq(messages.fromDid, fromDid),
+      eq(messages.clientMessageId, clientMessageId)
+    ),
+  });
+}
 
 /**
  * GET /api/conversations/:id/messages - Get messages in a conversation
+ * Pagination (at most one of):
+ *   ?before=<msgId> - older messages (default: latest page)
+ *   ?after=<msgId>  - newer messages
+ *   ?around=<msgId> - a page centred on the message (jump to reply / search hit)
  */
 export async function GET(
   request: NextRequest,
@@ -22,7 +63,17 @@ export async function GET(
   // Pagination
   const url = new URL(request.url);
   const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
-  const before = url.searchParams.get('before'); // Message ID for pagination
+  const before = url.searchParams.get('before');
+  const after = url.searchParams.get('after');
+  const around = url.searchParams.get('around');
+
+  if (!Number.isFinite(limit) || limit < 1) {
+    return errorResponse('limit must be a positive number');
+  }
+
+  if ([before, after, around].filter(Boolean).length > 1) {
+    return errorResponse('Only one of before, after or around can be used');
+  }
 
   try {
     // Check if user is a participant
@@ -37,45 +88,89 @@ export async function GET(
       return errorResponse('Conversation not found or access denied', 404);
     }
 
-    // Build query
-    let query = db
-      .select()
-      .from(messages)
-      .where(
-        and(
-          eq(messages.conversationId, conversationId),
-          isNull(messages.deletedAt)
-        )
-      )
-      .orderBy(desc(messages.createdAt))
-      .limit(limit);
-
-    // If paginating, get messages before the cursor
-    if (before) {
+    // Messages deleted while this participant was a member come back as
+    // tombstones so clients that already synced them can remove them.
+    // Messages from DIDs this participant blocked are left out.
+    const visible = and(
+      eq(messages.conversationId, conversationId),
+      or(
+        isNull(messages.deletedAt),
+        participant.joinedAt ? gt(messages.deletedAt, participant.joinedAt) : undefined
+      ),
+      notInArray(messages.fromDid, blockedBy(identity.id))
+    );
+
+    // The cursor must be a message in this conversation
+    const cursorId = before || after || around;
+    let cursor: Message | null = null;
+    if (cursorId) {
       const cursorMessage = await db.query.messages.findFirst({
-        where: eq(messages.id, before),
+        where: and(
+          eq(messages.id, cursorId),
+          eq(messages.conversationId, conversationId)
+        ),
       });
-      if (cursorMessage && cursorMessage.createdAt) {
-        query = db
-          .select()
-          .from(messages)
-          .where(
-            and(
-              eq(messages.conversationId, conversationId),
-              isNull(messages.deletedAt),
-              lt(messages.createdAt, cursorMessage.createdAt)
-            )
-          )
-          .orderBy(desc(messages.createdAt))
-          .limit(limit);
+      if (!cursorMessage) {
+        return errorResponse('Invalid cursor: message not found in this conversation');
       }
+      cursor = cursorMessage;
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const fetchOlder = (count: number, from: typeof cursor) =>
+      db
+        .select()
+        .from(messages)
+        .where(and(visible, from ? olderThan(from.id) : undefined))
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(count + 1);
+
+    const fetchNewer = (count: number, from: NonNullable<typeof cursor>) =>
+      db
+        .select()
+        .from(messages)
+        .where(and(visible, newerThan(from.id)))
+        .orderBy(asc(messages.createdAt), asc(messages.id))
+        .limit(count + 1);
+
+    const present = (rows: Message[]) =>
+      rows.map((message) => (message.deletedAt ? toTombstone(message) : message));
+
+    if (around && cursor) {
+      const olderCount = Math.floor((limit - 1) / 2);
+      const newerCount = limit - 1 - olderCount;
+      const [older, newer] = await Promise.all([
+        fetchOlder(olderCount, cursor),
+        fetchNewer(newerCount, cursor),
+      ]);
+      const hidden = (cursor.deletedAt && !(participant.joinedAt && cursor.deletedAt > participant.joinedAt)) ||
+        await hasBlocked(identity.id, cursor.fromDid);
+      const anchor = hidden ? [] : [cursor];
+
+      return jsonResponse({
+        messages: present([
+          ...older.slice(0, olderCount).reverse(),
+          ...anchor,
+          ...newer.slice(0, newerCount),
+        ]),
+        hasMoreBefore: older.length > olderCount,
+        hasMoreAfter: newer.length > newerCount,
+      });
+    }
+
+    if (after && cursor) {
+      const result = await fetchNewer(limit, cursor);
+      return jsonResponse({
+        messages: present(result.slice(0, limit)),
+        hasMore: result.length > limit,
+      });
     }
 
-    const result = await query;
+    const result = await fetchOlder(limit, cursor);
 
     return jsonResponse({
-      messages: result.reverse(), // Return in chronological order
-      hasMore: result.length === limit,
+      messages: present(result.slice(0, limit).reverse()), // Return in chronological order
+      hasMore: result.length > limit,
     });
   } catch (error) {
     console.error('Failed to get messages:', error);
@@ -85,6 +180,9 @@ export async function GET(
 
 /**
  * POST /api/conversations/:id/messages - Send a message
+ * content.signature (optional) is checked with signMessage's scheme in lib/crypto
+ * content.attachments (optional) references completed uploads, see lib/attachments
+ * content.commitment (optional) is the franking commitment used by abuse reports
  */
 export async function POST(
   request: NextRequest,
@@ -118,15 +216,71 @@ export async function POST(
     const body = await request.json();
     const { content, replyTo } = body;
 
+    // Idempotency: retries with the same client ID return the original message
+    const clientMessageId = body.clientMessageId ?? request.headers.get('Idempotency-Key');
+    if (clientMessageId != null && !isValidClientMessageId(clientMessageId)) {
+      return errorResponse('clientMessageId must be 1-64 characters of [A-Za-z0-9_-]');
+    }
+
+    if (clientMessageId) {
+      const original = await findByClientMessageId(conversationId, identity.id, clientMessageId);
+      if (original) {
+        return jsonResponse({ message: original, duplicate: true });
+      }
+    }
+
     // Validate content
     if (!content || typeof content !== 'object') {
       return errorResponse('content is required and must be an object');
     }
 
+    if (!hasValidSignature(conversationId, identity, content)) {
+      return errorResponse('Invalid message signature');
+    }
+
+    const attachmentRefs = parseAttachmentRefs(content);
+    if ('error' in attachmentRefs) {
+      return errorResponse(attachmentRefs.error);
+    }
+
+    const commitment = getCommitment(content);
+    if (commitment === undefined) {
+      return errorResponse('commitment must be a hex HMAC-SHA256');
+    }
+
     // For E2EE messages, content should have { encrypted, nonce }
     // For system messages, content has { type: 'system', text }
     const contentType = content.type === 'system' ? 'system' : 'text';
 
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    // Group messages must use a sender key from the current epoch
+    if (!usesCurrentSenderKey(conversation, content)) {
+      return errorResponse(`Sender key rotation required (keyEpoch ${conversation.keyEpoch})`, 409);
+    }
+
+    // Direct messages are encrypted per device: one envelope for every other active device
+    if (conversation.type === 'direct' && contentType !== 'system') {
+      const deviceResult = await requireDevice(request, identity.id);
+      if ('error' in deviceResult) {
+        return errorResponse(deviceResult.error, deviceResult.status);
+      }
+
+      const members = await db.query.participants.findMany({
+        where: eq(participants.conversationId, conversationId),
+      });
+      const mismatch = await checkDeviceFanOut(content, members.map((m) => m.did), deviceResult.device.id);
+      if (mismatch) {
+        return jsonResponse({ error: 'Device list changed', ...mismatch }, 409);
+      }
+    }
+
     // If replying, verify the message exists in this conversation
     if (replyTo) {
       const replyMessage = await db.query.messages.findFirst({
@@ -140,17 +294,53 @@ export async function POST(
       }
     }
 
-    // Create message
+    // Strangers can only send a few messages until their request is accepted;
+    // a reply from the recipient accepts it
+    const requestError = await checkMessageRequest(conversation, identity.id);
+    if (requestError) {
+      return errorResponse(requestError.error, requestError.status);
+    }
+
+    // Create message. If it isn't kept, its change resolves to nothing when synced.
     const messageId = generateId('msg');
-    
-    await db.insert(messages).values({
-      id: messageId,
-      conversationId,
-      fromDid: identity.id,
-      content,
-      contentType,
-      replyTo: replyTo || null,
-    });
+    const requestGuard = guardMessageRequest(conversationId, identity.id, messageId);
+    const [, [message], , takenBack] = await db.batch([
+      requestGuard.lock,
+      db
+        .insert(messages)
+        .values({
+          id: messageId,
+          conversationId,
+          fromDid: identity.id,
+          clientMessageId: clientMessageId || null,
+          content,
+          contentType,
+          replyTo: replyTo || null,
+          commitment,
+        })
+        .onConflictDoNothing()
+        .returning(),
+      logChange({ type: 'message', id: messageId }, { conversationId }),
+      requestGuard.takeBack,
+    ]);
+
+    if (takenBack.length > 0) {
+      return errorResponse(messageRequestLimitError.error, messageRequestLimitError.status);
+    }
+
+    // Lost a race with a concurrent retry of the same message
+    if (!message) {
+      const original = await findByClientMessageId(conversationId, identity.id, clientMessageId);
+      return jsonResponse({ message: original, duplicate: true });
+    }
+
+    // Attachments reference the message, so they're claimed once it exists;
+    // a message whose attachments can't be claimed is never sent
+    const claimError = await claimAttachments(attachmentRefs.refs, conversationId, identity.id, message.id);
+    if (claimError) {
+      await db.delete(messages).where(eq(messages.id, message.id));
+      return errorResponse(claimError.error, claimError.status);
+    }
 
     // Update conversation's lastMessageAt
     await db
@@ -161,9 +351,7 @@ export async function POST(
       })
       .where(eq(conversations.id, conversationId));
 
-    const message = await db.query.messages.findFirst({
-      where: eq(messages.id, messageId),
-    });
+    await publishMessage(message);
 
     return jsonResponse({ message }, 201);
   } catch (error) {
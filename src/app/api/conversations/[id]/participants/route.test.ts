@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { createLocalConnectionsGraph, setConnectionsGraph } from '@/lib/connections';
+import { POST as createConversation } from '../../route';
+import { POST as addParticipant } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+const DAVE = 'did:imajin:dave';
+const TRUSTED_ID = 'conv_trusted';
+
+beforeAll(async () => {
+  await migrated;
+  // alice - bob - carol - dave
+  setConnectionsGraph(createLocalConnectionsGraph([[ALICE, BOB], [BOB, CAROL], [CAROL, DAVE]]));
+
+  await db.insert(conversations).values([
+    { id: TRUSTED_ID, type: 'group', createdBy: ALICE, visibility: 'trust-bound', trustRadius: 2 },
+    { id: 'conv_private', type: 'group', createdBy: ALICE },
+  ]);
+  await db.insert(participants).values([
+    { conversationId: TRUSTED_ID, did: ALICE, role: 'owner' },
+    { conversationId: 'conv_private', did: ALICE, role: 'owner' },
+  ]);
+}, 60_000);
+
+function add(conversationId: string, did: string) {
+  return addParticipant(
+    authedRequest(ALICE, `/api/conversations/${conversationId}/participants`, { method: 'POST', body: { did } }),
+    routeParams({ id: conversationId })
+  );
+}
+
+describe('POST /api/conversations/:id/participants in a trust-bound group', () => {
+  it('only adds DIDs within the trust radius of some member', async () => {
+    expect((await add(TRUSTED_ID, DAVE)).status).toBe(403);
+    expect((await add(TRUSTED_ID, BOB)).status).toBe(201);
+    expect((await add(TRUSTED_ID, DAVE)).status).toBe(201);
+  });
+
+  it('adds anyone to a private group', async () => {
+    expect((await add('conv_private', 'did:imajin:erin')).status).toBe(201);
+  });
+
+  it('refuses to add anyone while the connections graph is unreachable', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setConnectionsGraph({
+      distance: async () => {
+        throw new Error('unreachable');
+      },
+    });
+
+    expect((await add(TRUSTED_ID, CAROL)).status).toBe(503);
+
+    setConnectionsGraph(createLocalConnectionsGraph([[ALICE, BOB], [BOB, CAROL], [CAROL, DAVE]]));
+    logged.mockRestore();
+  });
+});
+
+describe('POST /api/conversations trust-bound', () => {
+  it("checks each participant against the creator's reach", async () => {
+    const create = (participantDids: string[]) =>
+      createConversation(
+        authedRequest(ALICE, '/api/conversations', {
+          method: 'POST',
+          body: { type: 'group', name: 'Trusted', participantDids, visibility: 'trust-bound', trustRadius: 1 },
+        })
+      );
+
+    expect((await create([BOB, CAROL])).status).toBe(403);
+    expect((await create([BOB])).status).toBe(201);
+  });
+});
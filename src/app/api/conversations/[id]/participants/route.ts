@@ -1,8 +1,14 @@
 import { NextRequest } from 'next/server';
 import { eq, and } from 'drizzle-orm';
-import { db, conversations, participants, messages } from '@/db';
+import { db, conversations, participants, type Participant } from '@/db';
 import { requireAuth } from '@/lib/auth';
-import { jsonResponse, errorResponse, generateId, hasRole, isValidDid } from '@/lib/utils';
+import { jsonResponse, errorResponse, hasRole, isValidDid } from '@/lib/utils';
+import { postSystemMessage } from '@/lib/messaging';
+import { publishToConversation, publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { rotateSenderKeys } from '@/lib/rekey';
+import { checkTrustRadius } from '@/lib/trust';
+import { hasBlocked } from '@/lib/blocks';
 
 /**
  * GET /api/conversations/:id/participants - List participants
@@ -95,29 +101,49 @@ export async function POST(
       return errorResponse('Already a participant', 409);
     }
 
-    // Add participant
-    await db.insert(participants).values({
+    if (await hasBlocked(did, identity.id)) {
+      return errorResponse('Cannot add this participant', 403);
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    const denied = await checkTrustRadius(conversation, did);
+    if (denied) {
+      return errorResponse(denied.error, denied.status);
+    }
+
+    // Add participant. joinedAt is left to the database so it matches the
+    // time its changes are logged at.
+    const participant: Participant = {
       conversationId,
       did,
       role,
+      joinedAt: new Date(),
       invitedBy: identity.id,
-    });
+      lastReadAt: null,
+      muted: false,
+      trustExtendedTo: [],
+    };
+    const joined = { type: 'conversation.joined', conversationId } as const;
+    const added = { type: 'participant.added', conversationId, participant } as const;
+
+    await db.batch([
+      db.insert(participants).values({ ...participant, joinedAt: undefined }),
+      logChange(joined, { did }),
+      logChange(added, { conversationId }),
+    ]);
+
+    await publishToUser(did, joined);
+    await publishToConversation(conversationId, added);
 
     // Add system message
-    await db.insert(messages).values({
-      id: generateId('msg'),
-      conversationId,
-      fromDid: identity.id,
-      content: { type: 'system', text: `${identity.id} added ${did}` },
-      contentType: 'system',
-    });
-
-    const participant = await db.query.participants.findFirst({
-      where: and(
-        eq(participants.conversationId, conversationId),
-        eq(participants.did, did)
-      ),
-    });
+    await postSystemMessage(conversationId, identity.id, `${identity.id} added ${did}`);
 
     return jsonResponse({ participant }, 201);
   } catch (error) {
@@ -171,24 +197,24 @@ export async function PATCH(
     }
 
     // Update role
-    await db
-      .update(participants)
-      .set({ role })
-      .where(
-        and(
-          eq(participants.conversationId, conversationId),
-          eq(participants.did, did)
-        )
-      );
+    const event = { type: 'participant.updated', conversationId, did, role } as const;
+    await db.batch([
+      db
+        .update(participants)
+        .set({ role })
+        .where(
+          and(
+            eq(participants.conversationId, conversationId),
+            eq(participants.did, did)
+          )
+        ),
+      logChange(event, { conversationId }),
+    ]);
+
+    await publishToConversation(conversationId, event);
 
     // Add system message
-    await db.insert(messages).values({
-      id: generateId('msg'),
-      conversationId,
-      fromDid: identity.id,
-      content: { type: 'system', text: `${identity.id} changed ${did}'s role to ${role}` },
-      contentType: 'system',
-    });
+    await postSystemMessage(conversationId, identity.id, `${identity.id} changed ${did}'s role to ${role}`);
 
     return jsonResponse({ updated: true });
   } catch (error) {
@@ -261,26 +287,32 @@ export async function DELETE(
     }
 
     // Remove
-    await db
-      .delete(participants)
-      .where(
-        and(
-          eq(participants.conversationId, conversationId),
-          eq(participants.did, did)
-        )
-      );
+    const removed = { type: 'participant.removed', conversationId, did } as const;
+    const left = { type: 'conversation.left', conversationId, reason: isSelf ? 'left' : 'removed' } as const;
+    await db.batch([
+      db
+        .delete(participants)
+        .where(
+          and(
+            eq(participants.conversationId, conversationId),
+            eq(participants.did, did)
+          )
+        ),
+      logChange(removed, { conversationId }),
+      logChange(left, { did }),
+    ]);
 
     // Add system message
     const action = isSelf ? 'left the group' : `removed ${did}`;
-    await db.insert(messages).values({
-      id: generateId('msg'),
-      conversationId,
-      fromDid: identity.id,
-      content: { type: 'system', text: `${identity.id} ${action}` },
-      contentType: 'system',
-    });
+    await postSystemMessage(conversationId, identity.id, `${identity.id} ${action}`);
+
+    await publishToConversation(conversationId, removed);
+    await publishToUser(did, left);
+
+    // They must not be able to read anything sent from now on
+    const keyEpoch = await rotateSenderKeys(conversationId, did, isSelf ? 'left' : 'removed');
 
-    return jsonResponse({ removed: true });
+    return jsonResponse({ removed: true, keyEpoch });
   } catch (error) {
     console.error('Failed to remove participant:', error);
     return errorResponse('Failed to remove participant', 500);
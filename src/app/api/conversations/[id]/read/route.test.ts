@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants, messages } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { GET, PUT } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+const CONVERSATION_ID = 'conv_read';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values([
+    { id: CONVERSATION_ID, type: 'group', createdBy: ALICE },
+    { id: 'conv_other', type: 'group', createdBy: ALICE },
+  ]);
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+    { conversationId: CONVERSATION_ID, did: CAROL, role: 'member' },
+    { conversationId: 'conv_other', did: BOB, role: 'owner' },
+  ]);
+  await db.insert(messages).values([
+    { id: 'msg_first', conversationId: CONVERSATION_ID, fromDid: ALICE, content: {}, createdAt: new Date('2024-01-01') },
+    { id: 'msg_latest', conversationId: CONVERSATION_ID, fromDid: ALICE, content: {}, createdAt: new Date('2024-01-02') },
+    { id: 'msg_elsewhere', conversationId: 'conv_other', fromDid: BOB, content: {} },
+  ]);
+}, 60_000);
+
+function markRead(did: string, body?: object) {
+  return PUT(
+    authedRequest(did, `/api/conversations/${CONVERSATION_ID}/read`, { method: 'PUT', body }),
+    routeParams({ id: CONVERSATION_ID })
+  );
+}
+
+async function readState(did: string, query = '') {
+  const response = await GET(
+    authedRequest(did, `/api/conversations/${CONVERSATION_ID}/read${query}`),
+    routeParams({ id: CONVERSATION_ID })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe('/api/conversations/:id/read', () => {
+  it('marks the latest message read by default and reports who read a message', async () => {
+    const response = await markRead(BOB);
+    expect(response.status).toBe(200);
+    expect((await response.json()).receipt).toMatchObject({ did: BOB, lastReadMessageId: 'msg_latest' });
+
+    expect((await readState(ALICE, '?messageId=msg_first')).body).toEqual({
+      messageId: 'msg_first',
+      readBy: [BOB],
+      readCount: 1,
+      recipientCount: 2,
+    });
+  });
+
+  it('never moves a receipt backwards', async () => {
+    const response = await markRead(BOB, { lastReadMessageId: 'msg_first' });
+    expect((await response.json()).receipt.lastReadMessageId).toBe('msg_latest');
+
+    const { body } = await readState(CAROL);
+    expect(body.receipts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ did: BOB, lastReadMessageId: 'msg_latest' }),
+        expect.objectContaining({ did: CAROL, lastReadMessageId: null }),
+      ])
+    );
+  });
+
+  it('only accepts messages of the conversation, from its participants', async () => {
+    expect((await markRead(CAROL, { lastReadMessageId: 'msg_elsewhere' })).status).toBe(400);
+    expect((await markRead('did:imajin:mallory')).status).toBe(404);
+    expect((await readState('did:imajin:mallory')).status).toBe(404);
+  });
+});
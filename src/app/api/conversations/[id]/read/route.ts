@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, participants, messages, readReceipts } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { markRead } from '@/lib/receipts';
+
+/**
+ * GET /api/conversations/:id/read - Read state for a conversation
+ * Without params: every participant's receipt.
+ * With ?messageId=xxx: who has read that message ("read by 3 of 5").
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+  const url = new URL(request.url);
+  const messageId = url.searchParams.get('messageId');
+
+  try {
+    const allParticipants = await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversationId),
+    });
+
+    if (!allParticipants.some((p) => p.did === identity.id)) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (!messageId) {
+      const receipts = await db.query.readReceipts.findMany({
+        where: eq(readReceipts.conversationId, conversationId),
+      });
+      const byDid = new Map(receipts.map((r) => [r.did, r]));
+
+      return jsonResponse({
+        receipts: allParticipants.map((p) => ({
+          did: p.did,
+          lastReadMessageId: byDid.get(p.did)?.lastReadMessageId ?? null,
+          readAt: byDid.get(p.did)?.readAt ?? null,
+          lastReadAt: p.lastReadAt,
+        })),
+      });
+    }
+
+    const message = await db.query.messages.findFirst({
+      where: and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId)
+      ),
+    });
+
+    if (!message) {
+      return errorResponse('Message not found in this conversation', 400);
+    }
+
+    // Everyone except the sender is a potential reader
+    const recipients = allParticipants.filter((p) => p.did !== message.fromDid);
+    const readBy = recipients
+      .filter((p) => p.lastReadAt && message.createdAt && p.lastReadAt >= message.createdAt)
+      .map((p) => p.did);
+
+    return jsonResponse({
+      messageId,
+      readBy,
+      readCount: readBy.length,
+      recipientCount: recipients.length,
+    });
+  } catch (error) {
+    console.error('Failed to get read state:', error);
+    return errorResponse('Failed to get read state', 500);
+  }
+}
+
+/**
+ * PUT /api/conversations/:id/read - Mark as read
+ * Body (optional): { lastReadMessageId } - defaults to the latest message
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { lastReadMessageId } = body;
+
+    if (lastReadMessageId !== undefined && typeof lastReadMessageId !== 'string') {
+      return errorResponse('lastReadMessageId must be a string');
+    }
+
+    const result = await markRead(conversationId, identity.id, lastReadMessageId);
+    if ('error' in result) {
+      return errorResponse(result.error, result.status);
+    }
+
+    return jsonResponse({ receipt: result });
+  } catch (error) {
+    console.error('Failed to mark as read:', error);
+    return errorResponse('Failed to mark as read', 500);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, conversations, participants } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { acceptMessageRequest, declineMessageRequest, toConversationView } from '@/lib/requests';
+import { blockDid } from '@/lib/blocks';
+
+const REQUEST_ACTIONS = ['accept', 'decline', 'block'] as const;
+
+/**
+ * POST /api/conversations/:id/request - Answer a message request (recipient only)
+ * Body: { action: 'accept' | 'decline' | 'block' }
+ * Declining hides the request; blocking also stops the sender from reaching me again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, identity.id)
+      ),
+    });
+
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (!conversation.requestStatus || conversation.createdBy === identity.id) {
+      return errorResponse('No message request to answer', 404);
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    if (!REQUEST_ACTIONS.includes(action)) {
+      return errorResponse(`action must be one of: ${REQUEST_ACTIONS.join(', ')}`);
+    }
+
+    if (action === 'accept') {
+      const accepted = await acceptMessageRequest(conversation);
+      return jsonResponse({ conversation: toConversationView(accepted, identity.id) });
+    }
+
+    if (action === 'block') {
+      await blockDid(identity.id, conversation.createdBy);
+    }
+
+    if (conversation.requestStatus !== 'declined') {
+      await declineMessageRequest(conversation, identity.id);
+    }
+
+    return jsonResponse({ declined: true, blocked: action === 'block' });
+  } catch (error) {
+    console.error('Failed to answer message request:', error);
+    return errorResponse('Failed to answer message request', 500);
+  }
+}
@@ -3,6 +3,10 @@ import { eq, and } from 'drizzle-orm';
 import { db, conversations, participants } from '@/db';
 import { requireAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, hasRole } from '@/lib/utils';
+import { publishToConversation, publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { validateVisibility } from '@/lib/trust';
+import { toConversationView } from '@/lib/requests';
 
 /**
  * GET /api/conversations/:id - Get conversation details
@@ -46,7 +50,7 @@ export async function GET(
     });
 
     return jsonResponse({
-      conversation,
+      conversation: toConversationView(conversation, identity.id),
       participants: allParticipants,
       myRole: participant.role,
     });
@@ -58,6 +62,7 @@ export async function GET(
 
 /**
  * PATCH /api/conversations/:id - Update conversation (admin+)
+ * Body: { name?, description?, visibility?: 'private' | 'trust-bound', trustRadius? }
  */
 export async function PATCH(
   request: NextRequest,
@@ -85,7 +90,7 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { name, description, visibility } = body;
+    const { name, description, visibility, trustRadius } = body;
 
     const updates: Partial<typeof conversations.$inferInsert> = {
       updatedAt: new Date(),
@@ -93,18 +98,40 @@ export async function PATCH(
 
     if (name !== undefined) updates.name = name;
     if (description !== undefined) updates.description = description;
-    if (visibility !== undefined) updates.visibility = visibility;
 
-    await db
-      .update(conversations)
-      .set(updates)
-      .where(eq(conversations.id, conversationId));
-
-    const updated = await db.query.conversations.findFirst({
+    const conversation = await db.query.conversations.findFirst({
       where: eq(conversations.id, conversationId),
     });
 
-    return jsonResponse({ conversation: updated });
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (visibility !== undefined || trustRadius !== undefined) {
+      const access = validateVisibility(
+        conversation.type,
+        visibility ?? conversation.visibility,
+        trustRadius ?? conversation.trustRadius ?? undefined
+      );
+      if ('error' in access) {
+        return errorResponse(access.error);
+      }
+
+      updates.visibility = access.visibility;
+      updates.trustRadius = access.trustRadius;
+    }
+
+    const updated = { ...conversation, ...updates };
+    const event = { type: 'conversation.updated', conversation: toConversationView(updated) } as const;
+
+    await db.batch([
+      db.update(conversations).set(updates).where(eq(conversations.id, conversationId)),
+      logChange(event, { conversationId }),
+    ]);
+
+    await publishToConversation(conversationId, event);
+
+    return jsonResponse({ conversation: toConversationView(updated, identity.id) });
   } catch (error) {
     console.error('Failed to update conversation:', error);
     return errorResponse('Failed to update conversation', 500);
@@ -139,8 +166,25 @@ export async function DELETE(
       return errorResponse('Only the owner can delete a conversation', 403);
     }
 
-    // Cascade delete handles participants and messages
-    await db.delete(conversations).where(eq(conversations.id, conversationId));
+    const allParticipants = await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversationId),
+    });
+
+    // Cascade delete handles participants and messages. Former members can
+    // no longer see conversation events, so each of them is told directly
+    // (this is what their sync feed will show).
+    await db.batch([
+      db.delete(conversations).where(eq(conversations.id, conversationId)),
+      ...allParticipants.map((p) =>
+        logChange({ type: 'conversation.left', conversationId, reason: 'deleted' }, { did: p.did })
+      ),
+    ]);
+
+    await publishToConversation(conversationId, { type: 'conversation.deleted', conversationId });
+
+    for (const p of allParticipants) {
+      await publishToUser(p.did, { type: 'conversation.left', conversationId, reason: 'deleted' });
+    }
 
     return jsonResponse({ deleted: true });
   } catch (error) {
@@ -0,0 +1,199 @@
+import { NextRequest } from 'next/server';
+import { eq, and, asc } from 'drizzle-orm';
+import { db, conversations, participants, senderKeyDistributions } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, generateId } from '@/lib/utils';
+import { publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { requireDevice, checkDeviceFanOut } from '@/lib/devices';
+
+/**
+ * GET /api/conversations/:id/sender-keys - Distribution messages addressed to me
+ * for the conversation's current key epoch
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, identity.id)
+      ),
+    });
+
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    const distributions = await db.query.senderKeyDistributions.findMany({
+      where: and(
+        eq(senderKeyDistributions.conversationId, conversationId),
+        eq(senderKeyDistributions.toDid, identity.id),
+        eq(senderKeyDistributions.keyEpoch, conversation.keyEpoch)
+      ),
+      orderBy: [asc(senderKeyDistributions.createdAt)],
+    });
+
+    return jsonResponse({
+      keyEpoch: conversation.keyEpoch,
+      distributions: distributions.map((d) => ({
+        fromDid: d.fromDid,
+        fromDeviceId: d.fromDeviceId,
+        content: d.content,
+        createdAt: d.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to get sender keys:', error);
+    return errorResponse('Failed to get sender keys', 500);
+  }
+}
+
+/**
+ * POST /api/conversations/:id/sender-keys - Distribute this device's sender key
+ * Header: X-Device-Id
+ * Body: { keyEpoch, distributions: [{ toDid, content }] }
+ * Each content is a SenderKeyDistribution encrypted to every active device of
+ * that member ({ devices: { dev_xxx: ... } }); my own other devices are
+ * addressed with toDid = my DID. Sending again for the same epoch replaces
+ * the previous one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const allParticipants = await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversationId),
+    });
+
+    const participant = allParticipants.find((p) => p.did === identity.id);
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (participant.role === 'readonly') {
+      return errorResponse('You do not have permission to send messages', 403);
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (conversation.type !== 'group') {
+      return errorResponse('Sender keys are only used in group conversations');
+    }
+
+    const deviceResult = await requireDevice(request, identity.id);
+    if ('error' in deviceResult) {
+      return errorResponse(deviceResult.error, deviceResult.status);
+    }
+
+    const { device } = deviceResult;
+    const body = await request.json();
+    const { keyEpoch, distributions } = body;
+
+    if (keyEpoch !== conversation.keyEpoch) {
+      return errorResponse(`Sender key rotation required (keyEpoch ${conversation.keyEpoch})`, 409);
+    }
+
+    if (!Array.isArray(distributions) || distributions.length === 0) {
+      return errorResponse('distributions must be a non-empty array');
+    }
+
+    const memberDids = new Set(allParticipants.map((p) => p.did));
+    const recipients = new Set<string>();
+
+    for (const distribution of distributions) {
+      const { toDid, content } = distribution ?? {};
+
+      if (typeof toDid !== 'string' || !memberDids.has(toDid)) {
+        return errorResponse(`Not a participant: ${toDid}`);
+      }
+      if (recipients.has(toDid)) {
+        return errorResponse(`Duplicate distribution for ${toDid}`);
+      }
+      if (!content || typeof content !== 'object') {
+        return errorResponse('Each distribution needs toDid and an encrypted content object');
+      }
+
+      const mismatch = await checkDeviceFanOut(content, [toDid], device.id);
+      if (mismatch) {
+        return jsonResponse({ error: `Device list changed for ${toDid}`, ...mismatch }, 409);
+      }
+      recipients.add(toDid);
+    }
+
+    const event = {
+      type: 'sender-key.received',
+      conversationId,
+      fromDid: identity.id,
+      fromDeviceId: device.id,
+      keyEpoch,
+    } as const;
+
+    for (const { toDid, content } of distributions) {
+      await db.batch([
+        db
+          .insert(senderKeyDistributions)
+          .values({
+            id: generateId('skd'),
+            conversationId,
+            fromDid: identity.id,
+            fromDeviceId: device.id,
+            toDid,
+            keyEpoch,
+            content,
+          })
+          .onConflictDoUpdate({
+            target: [
+              senderKeyDistributions.conversationId,
+              senderKeyDistributions.keyEpoch,
+              senderKeyDistributions.fromDid,
+              senderKeyDistributions.fromDeviceId,
+              senderKeyDistributions.toDid,
+            ],
+            set: { content, createdAt: new Date() },
+          }),
+        logChange(event, { did: toDid }),
+      ]);
+
+      await publishToUser(toDid, event);
+    }
+
+    return jsonResponse({ keyEpoch, distributed: recipients.size }, 201);
+  } catch (error) {
+    console.error('Failed to distribute sender key:', error);
+    return errorResponse('Failed to distribute sender key', 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { ed25519 } from '@noble/curves/ed25519';
+import { db, migrated, conversations, participants } from '@/test/db';
+import { authedRequest, authPrivateKey, routeParams } from '@/test/auth';
+import { signTrustAttestation, verifyTrustAttestation, keyToHex } from '@/lib/crypto';
+import { GET, POST, DELETE } from './route';
+import { GET as exportAttestations } from '../../../trust/attestations/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CONVERSATION_ID = 'conv_trust';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+  ]);
+}, 60_000);
+
+function extend(subject: string, options: { issuedAt?: string; signer?: string } = {}) {
+  const issuedAt = options.issuedAt ?? new Date().toISOString();
+  const attestation = { issuer: ALICE, subject, conversationId: CONVERSATION_ID, issuedAt };
+  const signature = signTrustAttestation(attestation, authPrivateKey(options.signer ?? ALICE));
+
+  return POST(
+    authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/trust`, {
+      method: 'POST',
+      body: { did: subject, issuedAt, signature },
+    }),
+    routeParams({ id: CONVERSATION_ID })
+  );
+}
+
+async function trust() {
+  const response = await GET(authedRequest(BOB, `/api/conversations/${CONVERSATION_ID}/trust`), routeParams({ id: CONVERSATION_ID }));
+  return (await response.json()).trust;
+}
+
+describe('/api/conversations/:id/trust', () => {
+  it('needs a fresh attestation signed by the issuer, about a member', async () => {
+    expect((await extend(BOB, { signer: BOB })).status).toBe(400);
+    expect((await extend(BOB, { issuedAt: '2020-01-01T00:00:00.000Z' })).status).toBe(400);
+    expect((await extend('did:imajin:carol')).status).toBe(404);
+    expect(await trust()).toEqual([]);
+  });
+
+  it('extends trust once and exports a verifiable attestation', async () => {
+    expect((await extend(BOB)).status).toBe(201);
+    expect(await (await extend(BOB)).json()).toMatchObject({ alreadyExtended: true });
+    expect(await trust()).toEqual([{ fromDid: ALICE, toDid: BOB }]);
+
+    const { received } = await (await exportAttestations(authedRequest(BOB, '/api/trust/attestations'))).json();
+    expect(received).toHaveLength(1);
+    const [{ attestation, signature }] = received;
+    const aliceKey = keyToHex(ed25519.getPublicKey(authPrivateKey(ALICE)));
+    expect(verifyTrustAttestation(attestation, signature, aliceKey)).toBe(true);
+  });
+
+  it('withdraws trust, keeping the attestation as revoked', async () => {
+    const withdraw = () =>
+      DELETE(
+        authedRequest(ALICE, `/api/conversations/${CONVERSATION_ID}/trust?did=${BOB}`, { method: 'DELETE' }),
+        routeParams({ id: CONVERSATION_ID })
+      );
+
+    expect((await withdraw()).status).toBe(200);
+    expect((await withdraw()).status).toBe(404);
+    expect(await trust()).toEqual([]);
+
+    const { issued } = await (await exportAttestations(authedRequest(ALICE, '/api/trust/attestations'))).json();
+    expect(issued[0].revokedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, conversations, participants, trustAttestations } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { verifyTrustAttestation } from '@/lib/crypto';
+import { postSystemMessage, postTrustExtendedMessage } from '@/lib/messaging';
+import {
+  ATTESTATION_MAX_SKEW_MS,
+  extendTrust,
+  revokeTrust,
+  toAttestationView,
+} from '@/lib/trust';
+
+/**
+ * GET /api/conversations/:id/trust - Trust extended between current members
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const allParticipants = await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversationId),
+    });
+
+    if (!allParticipants.some((p) => p.did === identity.id)) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    const memberDids = new Set(allParticipants.map((p) => p.did));
+    const trust = allParticipants.flatMap((p) =>
+      ((p.trustExtendedTo as string[] | null) ?? [])
+        .filter((did) => memberDids.has(did))
+        .map((did) => ({ fromDid: p.did, toDid: did }))
+    );
+
+    return jsonResponse({ trust });
+  } catch (error) {
+    console.error('Failed to list trust:', error);
+    return errorResponse('Failed to list trust', 500);
+  }
+}
+
+/**
+ * POST /api/conversations/:id/trust - Extend trust to another member (groups)
+ * Body: { did, issuedAt, signature } - signature is signTrustAttestation over
+ * { issuer: me, subject: did, conversationId, issuedAt } with my DID key
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const allParticipants = await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversationId),
+    });
+
+    const participant = allParticipants.find((p) => p.did === identity.id);
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (participant.role === 'readonly') {
+      return errorResponse('You do not have permission to send messages', 403);
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (conversation.type !== 'group') {
+      return errorResponse('Trust can only be extended in group conversations');
+    }
+
+    const body = await request.json();
+    const { did, issuedAt, signature } = body;
+
+    if (!isValidDid(did) || did === identity.id) {
+      return errorResponse('Invalid DID');
+    }
+
+    if (!allParticipants.some((p) => p.did === did)) {
+      return errorResponse('Participant not found', 404);
+    }
+
+    const issued = typeof issuedAt === 'string' ? Date.parse(issuedAt) : NaN;
+    if (Number.isNaN(issued) || Math.abs(Date.now() - issued) > ATTESTATION_MAX_SKEW_MS) {
+      return errorResponse('issuedAt must be the current time (ISO 8601)');
+    }
+
+    const attestation = { issuer: identity.id, subject: did, conversationId, issuedAt };
+    if (!verifyTrustAttestation(attestation, signature, identity.publicKey)) {
+      return errorResponse('Invalid attestation signature');
+    }
+
+    const current = await db.query.trustAttestations.findFirst({
+      where: and(
+        eq(trustAttestations.conversationId, conversationId),
+        eq(trustAttestations.issuerDid, identity.id),
+        eq(trustAttestations.subjectDid, did)
+      ),
+    });
+
+    if (current && !current.revokedAt) {
+      return jsonResponse({ attestation: toAttestationView(current), alreadyExtended: true });
+    }
+
+    const row = await extendTrust(attestation, signature);
+    await postTrustExtendedMessage(conversationId, identity.id, did);
+
+    return jsonResponse({ attestation: toAttestationView(row) }, 201);
+  } catch (error) {
+    console.error('Failed to extend trust:', error);
+    return errorResponse('Failed to extend trust', 500);
+  }
+}
+
+/**
+ * DELETE /api/conversations/:id/trust?did=xxx - Withdraw trust I extended
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: conversationId } = await params;
+
+  try {
+    const url = new URL(request.url);
+    const did = url.searchParams.get('did');
+
+    if (!did || !isValidDid(did)) {
+      return errorResponse('Invalid or missing DID');
+    }
+
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, identity.id)
+      ),
+    });
+
+    if (!participant) {
+      return errorResponse('Conversation not found or access denied', 404);
+    }
+
+    if (!(await revokeTrust(conversationId, identity.id, did))) {
+      return errorResponse('Trust was not extended to this DID', 404);
+    }
+
+    await postSystemMessage(conversationId, identity.id, `${identity.id} withdrew trust from ${did}`);
+
+    return jsonResponse({ revoked: true });
+  } catch (error) {
+    console.error('Failed to revoke trust:', error);
+    return errorResponse('Failed to revoke trust', 500);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants, messages, blocks } from '@/test/db';
+import { authedRequest } from '@/test/auth';
+import { markRead } from '@/lib/receipts';
+import { GET } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+const CONVERSATION_ID = 'conv_list';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', name: 'List', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+    { conversationId: CONVERSATION_ID, did: CAROL, role: 'member' },
+  ]);
+  await db.insert(messages).values([
+    { id: 'msg_bob', conversationId: CONVERSATION_ID, fromDid: BOB, content: { encrypted: 'b' }, createdAt: new Date('2024-01-01') },
+    { id: 'msg_mine', conversationId: CONVERSATION_ID, fromDid: ALICE, content: { encrypted: 'a' }, createdAt: new Date('2024-01-02') },
+    {
+      id: 'msg_system',
+      conversationId: CONVERSATION_ID,
+      fromDid: BOB,
+      content: { type: 'system', text: 'joined' },
+      contentType: 'system',
+      createdAt: new Date('2024-01-03'),
+    },
+    { id: 'msg_carol', conversationId: CONVERSATION_ID, fromDid: CAROL, content: { encrypted: 'c' }, createdAt: new Date('2024-01-04') },
+    {
+      id: 'msg_deleted',
+      conversationId: CONVERSATION_ID,
+      fromDid: BOB,
+      content: {},
+      createdAt: new Date('2024-01-05'),
+      deletedAt: new Date('2024-01-06'),
+    },
+  ]);
+}, 60_000);
+
+async function listed(did: string) {
+  const response = await GET(authedRequest(did, '/api/conversations'));
+  expect(response.status).toBe(200);
+  const { conversations } = await response.json();
+  return conversations.find((conversation: { id: string }) => conversation.id === CONVERSATION_ID);
+}
+
+describe('GET /api/conversations', () => {
+  it('counts unread messages from others and previews the latest message', async () => {
+    const conversation = await listed(ALICE);
+    expect(conversation.unreadCount).toBe(2);
+    expect(conversation.lastMessage).toMatchObject({ id: 'msg_carol', fromDid: CAROL, content: { encrypted: 'c' } });
+  });
+
+  it('leaves out messages from blocked DIDs', async () => {
+    await db.insert(blocks).values({ did: ALICE, blockedDid: CAROL });
+
+    const conversation = await listed(ALICE);
+    expect(conversation.unreadCount).toBe(1);
+    expect(conversation.lastMessage.id).toBe('msg_system');
+
+    expect((await listed(BOB)).lastMessage.id).toBe('msg_carol');
+  });
+
+  it('starts counting again from the read receipt', async () => {
+    await markRead(CONVERSATION_ID, ALICE, 'msg_bob');
+    expect((await listed(ALICE)).unreadCount).toBe(0);
+
+    await markRead(CONVERSATION_ID, BOB, 'msg_bob');
+    expect((await listed(BOB)).unreadCount).toBe(2);
+  });
+});
@@ -1,11 +1,19 @@
 import { NextRequest } from 'next/server';
-import { eq, desc, and, or } from 'drizzle-orm';
+import { eq, ne, gt, desc, and, or, isNull, notInArray, sql } from 'drizzle-orm';
 import { db, conversations, participants, messages } from '@/db';
 import { requireAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, generateId, isValidDid } from '@/lib/utils';
+import { postSystemMessage } from '@/lib/messaging';
+import { publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { validateVisibility, checkTrustRadius } from '@/lib/trust';
+import { needsMessageRequest, toConversationView } from '@/lib/requests';
+import { hasBlocked, blockedBy } from '@/lib/blocks';
 
 /**
  * GET /api/conversations - List conversations for authenticated user
+ * ?requests=true lists message requests from strangers instead, which are
+ * left out of the default list
  */
 export async function GET(request: NextRequest) {
   const authResult = await requireAuth(request);
@@ -14,25 +22,87 @@ export async function GET(request: NextRequest) {
   }
 
   const { identity } = authResult;
+  const url = new URL(request.url);
+  const showRequests = url.searchParams.get('requests') === 'true';
 
   try {
-    // Get all conversations where user is a participant
+    // Requests I received (declined ones are never listed); requests I sent stay in my list
+    const listFilter = showRequests
+      ? and(eq(conversations.requestStatus, 'pending'), ne(conversations.createdBy, identity.id))
+      : or(isNull(conversations.requestStatus), eq(conversations.createdBy, identity.id));
+
+    // Messages from DIDs I blocked don't show up in previews or unread counts
+    const fromUnblocked = notInArray(messages.fromDid, blockedBy(identity.id));
+
+    // Latest visible message envelope (still encrypted - clients decrypt the preview)
+    const lastMessage = db
+      .select({
+        id: messages.id,
+        fromDid: messages.fromDid,
+        content: messages.content,
+        contentType: messages.contentType,
+        createdAt: messages.createdAt,
+      })
+      .from(messages)
+      .where(
+        and(
+          eq(messages.conversationId, conversations.id),
+          isNull(messages.deletedAt),
+          fromUnblocked
+        )
+      )
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(1)
+      .as('last_message');
+
+    // Messages from others since our read receipt (system messages don't count)
+    const unread = db
+      .select({ count: sql<number>`count(*)::int`.as('unread_count') })
+      .from(messages)
+      .where(
+        and(
+          eq(messages.conversationId, conversations.id),
+          isNull(messages.deletedAt),
+          ne(messages.fromDid, identity.id),
+          ne(messages.contentType, 'system'),
+          fromUnblocked,
+          or(
+            isNull(participants.lastReadAt),
+            gt(messages.createdAt, participants.lastReadAt)
+          )
+        )
+      )
+      .as('unread');
+
+    // Get all conversations where user is a participant, in one round trip
     const userConversations = await db
       .select({
         conversation: conversations,
         participant: participants,
+        lastMessage: {
+          id: lastMessage.id,
+          fromDid: lastMessage.fromDid,
+          content: lastMessage.content,
+          contentType: lastMessage.contentType,
+          createdAt: lastMessage.createdAt,
+        },
+        unreadCount: unread.count,
       })
       .from(participants)
       .innerJoin(conversations, eq(participants.conversationId, conversations.id))
-      .where(eq(participants.did, identity.id))
+      .leftJoinLateral(lastMessage, sql`true`)
+      .leftJoinLateral(unread, sql`true`)
+      .where(and(eq(participants.did, identity.id), listFilter))
       .orderBy(desc(conversations.lastMessageAt));
 
     return jsonResponse({
-      conversations: userConversations.map(({ conversation, participant }) => ({
-        ...conversation,
+      conversations: userConversations.map(({ conversation, participant, lastMessage, unreadCount }) => ({
+        ...toConversationView(conversation, identity.id),
         myRole: participant.role,
         muted: participant.muted,
         lastReadAt: participant.lastReadAt,
+        unreadCount: unreadCount ?? 0,
+        lastMessage: lastMessage?.id ? lastMessage : null,
       })),
     });
   } catch (error) {
@@ -43,6 +113,7 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/conversations - Create a new conversation
+ * Body: { type, name?, description?, participantDids, visibility?, trustRadius? }
  */
 export async function POST(request: NextRequest) {
   const authResult = await requireAuth(request);
@@ -54,7 +125,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { type, name, description, participantDids, visibility = 'private' } = body;
+    const { type, name, description, participantDids, visibility = 'private', trustRadius } = body;
 
     // Validate type
     if (!type || !['direct', 'group'].includes(type)) {
@@ -109,7 +180,7 @@ export async function POST(request: NextRequest) {
           const conv = await db.query.conversations.findFirst({
             where: eq(conversations.id, convId),
           });
-          return jsonResponse({ conversation: conv, existing: true });
+          return jsonResponse({ conversation: conv && toConversationView(conv, identity.id), existing: true });
         }
       }
     }
@@ -119,54 +190,75 @@ export async function POST(request: NextRequest) {
       return errorResponse('Group conversations require a name');
     }
 
-    // Create conversation
-    const conversationId = generateId('conv');
-    
-    await db.insert(conversations).values({
-      id: conversationId,
-      type,
-      name: name || null,
-      description: description || null,
-      visibility,
-      createdBy: identity.id,
-    });
-
-    // Add creator as owner
-    await db.insert(participants).values({
-      conversationId,
-      did: identity.id,
-      role: 'owner',
-      invitedBy: null,
-    });
+    const access = validateVisibility(type, visibility, trustRadius);
+    if ('error' in access) {
+      return errorResponse(access.error);
+    }
 
-    // Add other participants as members
+    // Everyone added to a group at creation must be within reach of the
+    // creator and not have blocked them
+    const conversationId = generateId('conv');
     for (const did of participantDids) {
-      if (did !== identity.id) {
-        await db.insert(participants).values({
-          conversationId,
-          did,
-          role: 'member',
-          invitedBy: identity.id,
-        });
+      if (did === identity.id) continue;
+      if (type === 'group' && await hasBlocked(did, identity.id)) {
+        return errorResponse(`${did}: Cannot add this participant`, 403);
+      }
+      const denied = await checkTrustRadius({ id: conversationId, ...access }, did, [identity.id]);
+      if (denied) {
+        return errorResponse(`${did}: ${denied.error}`, denied.status);
       }
     }
 
+    // Direct messages from strangers start as requests. Someone who was
+    // blocked gets one that is already declined, so they can't tell.
+    let requestStatus: string | null = null;
+    if (type === 'direct') {
+      const otherDid = participantDids[0];
+      if (await hasBlocked(otherDid, identity.id)) {
+        requestStatus = 'declined';
+      } else if (await needsMessageRequest(identity.id, otherDid)) {
+        requestStatus = 'pending';
+      }
+    }
+
+    const memberDids = participantDids.filter((did) => did !== identity.id);
+    // Someone who blocked the creator doesn't hear about the declined request
+    const joinedDids = [identity.id, ...(requestStatus === 'declined' ? [] : memberDids)];
+
+    // Create conversation, with the creator as owner and the others as members
+    await db.batch([
+      db.insert(conversations).values({
+        id: conversationId,
+        type,
+        name: name || null,
+        description: description || null,
+        visibility: access.visibility,
+        trustRadius: access.trustRadius,
+        requestStatus,
+        createdBy: identity.id,
+      }),
+      db.insert(participants).values([
+        { conversationId, did: identity.id, role: 'owner', invitedBy: null },
+        ...memberDids.map((did) => ({ conversationId, did, role: 'member', invitedBy: identity.id })),
+      ]),
+      ...joinedDids.map((did) => logChange({ type: 'conversation.joined', conversationId }, { did })),
+    ]);
+
+    // Let every member's open sockets pick up the new conversation
+    for (const did of joinedDids) {
+      await publishToUser(did, { type: 'conversation.joined', conversationId });
+    }
+
     // Add system message for group creation
     if (type === 'group') {
-      await db.insert(messages).values({
-        id: generateId('msg'),
-        conversationId,
-        fromDid: identity.id,
-        content: { type: 'system', text: `${identity.id} created the group` },
-        contentType: 'system',
-      });
+      await postSystemMessage(conversationId, identity.id, `${identity.id} created the group`);
     }
 
     const conversation = await db.query.conversations.findFirst({
       where: eq(conversations.id, conversationId),
     });
 
-    return jsonResponse({ conversation }, 201);
+    return jsonResponse({ conversation: conversation && toConversationView(conversation, identity.id) }, 201);
   } catch (error) {
     console.error('Failed to create conversation:', error);
     return errorResponse('Failed to create conversation', 500);
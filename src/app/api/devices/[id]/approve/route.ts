@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, devices } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { publishToUser } from '@/lib/realtime';
+import { logChange, wroteRows } from '@/lib/changes';
+import { hitRateLimit } from '@/lib/ratelimit';
+import {
+  requireDevice,
+  requireDeviceProof,
+  deviceStatement,
+  linkCodeMatches,
+  deviceChangeEvents,
+  announceDeviceChange,
+  toDeviceView,
+  LINK_CODE_TTL_MS,
+  LINK_CODE_RATE_LIMIT,
+} from '@/lib/devices';
+
+/**
+ * POST /api/devices/:id/approve - Link a pending device from an active one
+ * Headers: X-Device-Id (the approving, active device), X-Device-Proof (its
+ * signature over { action: 'link', did, deviceId, targetId: :id })
+ * Body: { linkCode, linkPayload? } - linkCode as shown on the new device;
+ * linkPayload is handed to the new device as-is (encrypt it to that device,
+ * e.g. with contacts or session state).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: deviceId } = await params;
+
+  try {
+    const deviceResult = await requireDevice(request, identity.id);
+    if ('error' in deviceResult) {
+      return errorResponse(deviceResult.error, deviceResult.status);
+    }
+
+    const approver = deviceResult.device;
+
+    const device = await db.query.devices.findFirst({
+      where: and(eq(devices.id, deviceId), eq(devices.did, identity.id)),
+    });
+
+    if (!device || device.status !== 'pending') {
+      return errorResponse('Pending device not found', 404);
+    }
+
+    const body = await request.json();
+    const { linkCode, linkPayload } = body;
+
+    if (device.createdAt && Date.now() - device.createdAt.getTime() > LINK_CODE_TTL_MS) {
+      return errorResponse('Link code has expired; register the device again', 410);
+    }
+
+    const proofError = await requireDeviceProof(request, approver, deviceStatement('link', approver, { targetId: deviceId }));
+    if (proofError) {
+      return errorResponse(proofError.error, proofError.status);
+    }
+
+    // Every guess counts, so the 8-digit code can't be brute-forced
+    if (!(await hitRateLimit(`link-code:${deviceId}`, LINK_CODE_RATE_LIMIT))) {
+      return errorResponse('Too many attempts; register the device again', 429);
+    }
+
+    if (!linkCodeMatches(device.linkCode, linkCode)) {
+      return errorResponse('Invalid link code', 403);
+    }
+
+    if (linkPayload !== undefined && (typeof linkPayload !== 'object' || linkPayload === null)) {
+      return errorResponse('linkPayload must be an object');
+    }
+
+    const linkedEvent = { type: 'device.linked', deviceId, linkedBy: approver.id } as const;
+    const changes = await deviceChangeEvents(identity.id);
+    const approvedHere = wroteRows(devices, eq(devices.id, deviceId));
+
+    const [[approved]] = await db.batch([
+      db
+        .update(devices)
+        .set({
+          status: 'active',
+          linkCode: null,
+          linkedBy: approver.id,
+          linkPayload: linkPayload ?? null,
+          approvedAt: new Date(),
+        })
+        .where(and(eq(devices.id, deviceId), eq(devices.status, 'pending')))
+        .returning(),
+      logChange(linkedEvent, { did: identity.id }, approvedHere),
+      ...changes.map((event) => logChange(event, { conversationId: event.conversationId }, approvedHere)),
+    ]);
+
+    // Lost a race with another approval or a revocation
+    if (!approved) {
+      return errorResponse('Pending device not found', 404);
+    }
+
+    await publishToUser(identity.id, linkedEvent);
+    await announceDeviceChange(changes);
+
+    return jsonResponse({ device: toDeviceView(approved) });
+  } catch (error) {
+    console.error('Failed to approve device:', error);
+    return errorResponse('Failed to approve device', 500);
+  }
+}
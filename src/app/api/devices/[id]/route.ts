@@ -0,0 +1,128 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, devices, publicKeys } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { rotateSenderKeysForDevice } from '@/lib/rekey';
+import {
+  requireDevice,
+  requireDeviceProof,
+  deviceStatement,
+  deviceChangeEvents,
+  announceDeviceChange,
+  toDeviceView,
+  DEVICE_HEADER,
+} from '@/lib/devices';
+
+/**
+ * GET /api/devices/:id - Device status
+ * A pending device polls this until approved; called with its own
+ * X-Device-Id it also receives the approving device's `linkPayload`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: deviceId } = await params;
+
+  try {
+    const device = await db.query.devices.findFirst({
+      where: and(eq(devices.id, deviceId), eq(devices.did, identity.id)),
+    });
+
+    if (!device) {
+      return errorResponse('Device not found', 404);
+    }
+
+    const isSelf = request.headers.get(DEVICE_HEADER) === device.id;
+
+    return jsonResponse({
+      device: toDeviceView(device),
+      ...(isSelf && device.status === 'active' && { linkPayload: device.linkPayload }),
+    });
+  } catch (error) {
+    console.error('Failed to get device:', error);
+    return errorResponse('Failed to get device', 500);
+  }
+}
+
+/**
+ * DELETE /api/devices/:id - Revoke a device (from any active device, including itself)
+ * Headers: X-Device-Id, X-Device-Proof (its signature over
+ * { action: 'revoke', did, deviceId, targetId: :id })
+ * Its keys are deleted so nobody encrypts to it again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: deviceId } = await params;
+
+  try {
+    const deviceResult = await requireDevice(request, identity.id);
+    if ('error' in deviceResult) {
+      return errorResponse(deviceResult.error, deviceResult.status);
+    }
+
+    const proofError = await requireDeviceProof(
+      request,
+      deviceResult.device,
+      deviceStatement('revoke', deviceResult.device, { targetId: deviceId })
+    );
+    if (proofError) {
+      return errorResponse(proofError.error, proofError.status);
+    }
+
+    const device = await db.query.devices.findFirst({
+      where: and(eq(devices.id, deviceId), eq(devices.did, identity.id)),
+    });
+
+    if (!device) {
+      return errorResponse('Device not found', 404);
+    }
+
+    if (device.status === 'revoked') {
+      return jsonResponse({ revoked: true, device: toDeviceView(device) });
+    }
+
+    const revokedEvent = { type: 'device.revoked', deviceId } as const;
+    const changes = device.status === 'active' ? await deviceChangeEvents(identity.id) : [];
+
+    // Pre-keys go with the bundle (cascade)
+    const [[revoked]] = await db.batch([
+      db
+        .update(devices)
+        .set({ status: 'revoked', revokedAt: new Date(), linkCode: null, linkPayload: null })
+        .where(eq(devices.id, deviceId))
+        .returning(),
+      db.delete(publicKeys).where(eq(publicKeys.deviceId, deviceId)),
+      logChange(revokedEvent, { did: identity.id }),
+      ...changes.map((event) => logChange(event, { conversationId: event.conversationId })),
+    ]);
+
+    await publishToUser(identity.id, revokedEvent);
+    if (device.status === 'active') {
+      await announceDeviceChange(changes);
+      await rotateSenderKeysForDevice(identity.id);
+    }
+
+    return jsonResponse({ revoked: true, device: toDeviceView(revoked) });
+  } catch (error) {
+    console.error('Failed to revoke device:', error);
+    return errorResponse('Failed to revoke device', 500);
+  }
+}
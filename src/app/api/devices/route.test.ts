@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, migrated, publicKeys, keyChanges } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { generateBundle, uploadBundle } from '@/test/keys';
+import { generateKeyPair, keyToHex, signDeviceProof, type KeyPair } from '@/lib/crypto';
+import { POST as register } from './route';
+import { POST as approve } from './[id]/approve/route';
+import { DELETE as revoke } from './[id]/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+
+beforeAll(async () => {
+  await migrated;
+}, 60_000);
+
+async function registerDevice(did: string, body: Record<string, unknown> = {}) {
+  const response = await register(authedRequest(did, '/api/devices', { method: 'POST', body }));
+  expect(response.status).toBe(201);
+  return response.json() as Promise<{ device: { id: string; status: string }; linkCode?: string }>;
+}
+
+/**
+ * Give an active device a key bundle so it can sign device proofs
+ */
+async function insertBundle(did: string, deviceId: string): Promise<KeyPair> {
+  const identity = generateKeyPair();
+  await db.insert(publicKeys).values({
+    deviceId,
+    did,
+    identityKey: keyToHex(identity.publicKey),
+    signedPreKey: keyToHex(generateKeyPair().publicKey),
+    signature: '00'.repeat(64),
+  });
+  return identity;
+}
+
+function approveAs(did: string, approverId: string, proof: string, deviceId: string, linkCode: string) {
+  return approve(
+    authedRequest(did, `/api/devices/${deviceId}/approve`, {
+      method: 'POST',
+      body: { linkCode },
+      headers: { 'X-Device-Id': approverId, 'X-Device-Proof': proof },
+    }),
+    routeParams({ id: deviceId })
+  );
+}
+
+describe('device linking', () => {
+  it('only activates the first device a DID registers', async () => {
+    const [a, b] = await Promise.all([registerDevice(ALICE), registerDevice(ALICE)]);
+    expect([a.device.status, b.device.status].sort()).toEqual(['active', 'pending']);
+    expect((a.device.status === 'pending' ? a : b).linkCode).toMatch(/^\d{8}$/);
+  });
+
+  it('recovers a DID that lost every device with a new, announced identity key', async () => {
+    const did = 'did:imajin:dave';
+    const first = await registerDevice(did);
+    const lost = generateBundle();
+    expect((await uploadBundle(did, first.device.id, lost)).status).toBe(200);
+
+    const statement = { action: 'revoke', did, deviceId: first.device.id, targetId: first.device.id };
+    const revoked = await revoke(
+      authedRequest(did, `/api/devices/${first.device.id}`, {
+        method: 'DELETE',
+        headers: { 'X-Device-Id': first.device.id, 'X-Device-Proof': signDeviceProof(statement, lost.identity.privateKey) },
+      }),
+      routeParams({ id: first.device.id })
+    );
+    expect(revoked.status).toBe(200);
+
+    expect((await registerDevice(did)).device.status).toBe('pending');
+
+    const recovered = await registerDevice(did, { replaceIdentityKey: true });
+    expect(recovered.device).toMatchObject({ status: 'active', recovered: true });
+
+    const again = await register(
+      authedRequest(did, '/api/devices', { method: 'POST', body: { replaceIdentityKey: true } })
+    );
+    expect(again.status).toBe(409);
+
+    const bundle = generateBundle();
+    expect((await uploadBundle(did, recovered.device.id, bundle)).status).toBe(409);
+
+    const uploaded = await uploadBundle(did, recovered.device.id, bundle, { replaceIdentityKey: true });
+    expect(uploaded.status).toBe(200);
+    expect((await uploaded.json()).identityKeyChanged).toBe(true);
+
+    const [change] = await db.select().from(keyChanges).where(eq(keyChanges.did, did));
+    expect(change).toMatchObject({
+      deviceId: recovered.device.id,
+      previousIdentityKey: keyToHex(lost.identity.publicKey),
+      identityKey: keyToHex(bundle.identity.publicKey),
+    });
+  });
+
+  it('needs a proof from the approving device and limits attempts at the code', async () => {
+    const did = 'did:imajin:bob';
+    const approver = await registerDevice(did);
+    const identity = await insertBundle(did, approver.device.id);
+    const pending = await registerDevice(did);
+
+    const statement = { action: 'link', did, deviceId: approver.device.id, targetId: pending.device.id };
+    const proof = signDeviceProof(statement, identity.privateKey);
+    const forged = signDeviceProof(statement, generateKeyPair().privateKey);
+
+    const approveBob = (withProof: string, linkCode: string) =>
+      approveAs(did, approver.device.id, withProof, pending.device.id, linkCode);
+
+    expect((await approveBob(forged, pending.linkCode!)).status).toBe(403);
+
+    const wrongCode = pending.linkCode === '00000000' ? '00000001' : '00000000';
+    for (let i = 0; i < 5; i++) {
+      expect((await approveBob(proof, wrongCode)).status).toBe(403);
+    }
+    expect((await approveBob(proof, pending.linkCode!)).status).toBe(429);
+  });
+
+  it('links a device with the right code and proof', async () => {
+    const did = 'did:imajin:carol';
+    const approver = await registerDevice(did);
+    const identity = await insertBundle(did, approver.device.id);
+    const pending = await registerDevice(did);
+
+    const statement = { action: 'link', did, deviceId: approver.device.id, targetId: pending.device.id };
+    const proof = signDeviceProof(statement, identity.privateKey);
+    const response = await approveAs(did, approver.device.id, proof, pending.device.id, pending.linkCode!);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).device.status).toBe('active');
+  });
+});
@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import { eq, and, asc } from 'drizzle-orm';
+import { db, devices } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, generateId } from '@/lib/utils';
+import { logChange } from '@/lib/changes';
+import {
+  generateLinkCode,
+  deviceChangeEvents,
+  announceDeviceChange,
+  toDeviceView,
+  LINK_CODE_TTL_MS,
+} from '@/lib/devices';
+
+/**
+ * GET /api/devices - List my devices
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const myDevices = await db.query.devices.findMany({
+      where: eq(devices.did, identity.id),
+      orderBy: [asc(devices.createdAt)],
+    });
+
+    return jsonResponse({ devices: myDevices.map(toDeviceView) });
+  } catch (error) {
+    console.error('Failed to list devices:', error);
+    return errorResponse('Failed to list devices', 500);
+  }
+}
+
+/**
+ * POST /api/devices - Register this device
+ * Body: { name?, replaceIdentityKey? }
+ * A DID's first device is active immediately. Later devices are pending and
+ * get a `linkCode` to show the user, who enters it on an active device
+ * (POST /api/devices/:id/approve).
+ * With no active device left, `replaceIdentityKey: true` activates this one
+ * instead; its first key upload replaces the DID's identity key and is
+ * announced like any other identity key change.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { name, replaceIdentityKey } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || name.length > 64)) {
+      return errorResponse('name must be a string of at most 64 characters');
+    }
+
+    const id = generateId('dev');
+
+    // Only one device per DID is ever flagged first (unique index), so of
+    // concurrent first registrations one wins and the rest are pending
+    const [first] = await db
+      .insert(devices)
+      .values({
+        id,
+        did: identity.id,
+        name: name || null,
+        status: 'active',
+        isFirst: true,
+        approvedAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (first) {
+      return jsonResponse({ device: toDeviceView(first) }, 201);
+    }
+
+    if (replaceIdentityKey === true) {
+      const active = await db.query.devices.findFirst({
+        where: and(eq(devices.did, identity.id), eq(devices.status, 'active')),
+      });
+      if (active) {
+        return errorResponse('Approve this device from an active device instead', 409);
+      }
+
+      const changes = await deviceChangeEvents(identity.id);
+      const [[recovered]] = await db.batch([
+        db
+          .insert(devices)
+          .values({
+            id,
+            did: identity.id,
+            name: name || null,
+            status: 'active',
+            recovered: true,
+            approvedAt: new Date(),
+          })
+          .returning(),
+        ...changes.map((event) => logChange(event, { conversationId: event.conversationId })),
+      ]);
+
+      await announceDeviceChange(changes);
+      return jsonResponse({ device: toDeviceView(recovered) }, 201);
+    }
+
+    const linkCode = generateLinkCode();
+    const [device] = await db
+      .insert(devices)
+      .values({
+        id,
+        did: identity.id,
+        name: name || null,
+        status: 'pending',
+        linkCode,
+      })
+      .returning();
+
+    return jsonResponse({
+      device: toDeviceView(device),
+      linkCode,
+      linkCodeExpiresAt: new Date(device.createdAt!.getTime() + LINK_CODE_TTL_MS),
+    }, 201);
+  } catch (error) {
+    console.error('Failed to register device:', error);
+    return errorResponse('Failed to register device', 500);
+  }
+}
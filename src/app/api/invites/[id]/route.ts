@@ -1,11 +1,16 @@
 import { NextRequest } from 'next/server';
 import { eq, and } from 'drizzle-orm';
-import { db, conversations, participants, invites, messages } from '@/db';
+import { db, conversations, participants, invites, type Participant } from '@/db';
 import { requireAuth } from '@/lib/auth';
-import { jsonResponse, errorResponse, generateId, hasRole } from '@/lib/utils';
+import { jsonResponse, errorResponse, hasRole } from '@/lib/utils';
+import { postSystemMessage } from '@/lib/messaging';
+import { publishToConversation, publishToUser } from '@/lib/realtime';
+import { logChange } from '@/lib/changes';
+import { checkTrustRadius } from '@/lib/trust';
 
 /**
  * GET /api/invites/:id - Get invite info (public - for preview before joining)
+ * Trust-bound conversations need auth from a DID within their trust radius.
  */
 export async function GET(
   request: NextRequest,
@@ -51,6 +56,23 @@ export async function GET(
       where: eq(participants.conversationId, invite.conversationId),
     });
 
+    // Trust-bound conversations are only shown to DIDs within reach
+    if (conversation.visibility === 'trust-bound') {
+      const authResult = await requireAuth(request);
+      if ('error' in authResult) {
+        return errorResponse(authResult.error, authResult.status);
+      }
+
+      const denied = await checkTrustRadius(
+        conversation,
+        authResult.identity.id,
+        allParticipants.map((p) => p.did)
+      );
+      if (denied) {
+        return errorResponse(denied.error, denied.status);
+      }
+    }
+
     return jsonResponse({
       invite: {
         id: invite.id,
@@ -130,28 +152,49 @@ export async function POST(
       });
     }
 
-    // Add as participant
-    await db.insert(participants).values({
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, invite.conversationId),
+    });
+
+    if (!conversation) {
+      return errorResponse('Conversation not found', 404);
+    }
+
+    const denied = await checkTrustRadius(conversation, identity.id);
+    if (denied) {
+      return errorResponse(denied.error, denied.status);
+    }
+
+    // Add as participant and increment the used count. joinedAt is left to
+    // the database so it matches the time its changes are logged at.
+    const participant: Participant = {
       conversationId: invite.conversationId,
       did: identity.id,
       role: 'member',
+      joinedAt: new Date(),
       invitedBy: invite.createdBy,
-    });
-
-    // Increment used count
-    await db
-      .update(invites)
-      .set({ usedCount: (parseInt(invite.usedCount) + 1).toString() })
-      .where(eq(invites.id, inviteId));
+      lastReadAt: null,
+      muted: false,
+      trustExtendedTo: [],
+    };
+    const joined = { type: 'conversation.joined', conversationId: invite.conversationId } as const;
+    const added = { type: 'participant.added', conversationId: invite.conversationId, participant } as const;
+
+    await db.batch([
+      db.insert(participants).values({ ...participant, joinedAt: undefined }),
+      db
+        .update(invites)
+        .set({ usedCount: (parseInt(invite.usedCount) + 1).toString() })
+        .where(eq(invites.id, inviteId)),
+      logChange(joined, { did: identity.id }),
+      logChange(added, { conversationId: invite.conversationId }),
+    ]);
+
+    await publishToUser(identity.id, joined);
+    await publishToConversation(invite.conversationId, added);
 
     // Add system message
-    await db.insert(messages).values({
-      id: generateId('msg'),
-      conversationId: invite.conversationId,
-      fromDid: identity.id,
-      content: { type: 'system', text: `${identity.id} joined via invite` },
-      contentType: 'system',
-    });
+    await postSystemMessage(invite.conversationId, identity.id, `${identity.id} joined via invite`);
 
     return jsonResponse({ 
       conversationId: invite.conversationId,
@@ -3,6 +3,7 @@ import { eq, and, isNull, gt } from 'drizzle-orm';
 import { db, conversations, participants, invites, messages } from '@/db';
 import { requireAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, generateId, hasRole } from '@/lib/utils';
+import { hasBlocked } from '@/lib/blocks';
 
 /**
  * POST /api/invites - Create an invite link
@@ -35,6 +36,11 @@ export async function POST(request: NextRequest) {
       return errorResponse('Permission denied', 403);
     }
 
+    // Invites can't be addressed to someone who blocked the inviter
+    if (forDid && await hasBlocked(forDid, identity.id)) {
+      return errorResponse('Cannot invite this DID', 403);
+    }
+
     // Calculate expiry
     let expiresAt = null;
     if (expiresInHours) {
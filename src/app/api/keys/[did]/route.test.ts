@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { db, migrated, devices, publicKeys } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { generateBundle, uploadBundle } from '@/test/keys';
+import { generateKeyPair, keyToHex, encryptInitialMessage, decryptInitialMessage, type X3DHKeyBundle } from '@/lib/crypto';
+import { verifyInclusion, verifyTreeHead, type SignedTreeHead } from '@/lib/merkle';
+import type { InclusionProof } from '@/lib/transparency';
+import { GET as getKeys } from './route';
+import { GET as getLog } from '../log/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+
+type LookedUp = X3DHKeyBundle & { transparency: InclusionProof & SignedTreeHead };
+
+beforeAll(async () => {
+  await migrated;
+  process.env.KEY_LOG_SIGNING_KEY = keyToHex(generateKeyPair().privateKey);
+  await db.insert(devices).values([
+    { id: 'dev_bob', did: BOB, status: 'active', isFirst: true },
+    { id: 'dev_carol', did: CAROL, status: 'active', isFirst: true },
+  ]);
+}, 60_000);
+
+async function lookUp(did: string): Promise<{ status: number; bundles: LookedUp[] }> {
+  const response = await getKeys(authedRequest(ALICE, `/api/keys/${did}`), routeParams({ did }));
+  const body = await response.json();
+  return { status: response.status, bundles: body.devices };
+}
+
+describe('GET /api/keys/:did', () => {
+  it('returns bundles that start an X3DH session as they are', async () => {
+    const bob = generateBundle(2);
+    expect((await uploadBundle(BOB, 'dev_bob', bob)).status).toBe(200);
+
+    const { status, bundles } = await lookUp(BOB);
+    expect(status).toBe(200);
+    expect(bundles).toHaveLength(1);
+
+    const [bundle] = bundles;
+    expect(bundle).toMatchObject({ did: BOB, deviceId: 'dev_bob', identityKey: keyToHex(bob.identity.publicKey) });
+
+    const { content } = encryptInitialMessage('hello bob', generateKeyPair(), bundle);
+    const oneTimePreKey = bob.oneTimePreKeys.find((key) => keyToHex(key.publicKey) === bundle.oneTimePreKey);
+    expect(oneTimePreKey).toBeDefined();
+
+    const { plaintext } = decryptInitialMessage(content, bob.identity, bob.signedPreKey, oneTimePreKey!);
+    expect(plaintext).toBe('hello bob');
+  });
+
+  it('proves each bundle against a tree head signed with the log key', async () => {
+    const { bundles: [{ transparency }] } = await lookUp(BOB);
+    const { publicKey, treeSize, rootHash } = await (await getLog(new NextRequest('http://localhost/api/keys/log'))).json();
+
+    expect(verifyTreeHead(transparency, publicKey)).toBe(true);
+    expect(transparency).toMatchObject({ treeSize, rootHash });
+    expect(verifyInclusion(transparency.leafHash, transparency.leafIndex, treeSize, transparency.proof, rootHash)).toBe(true);
+  });
+
+  it('does not serve a bundle that is not in the log', async () => {
+    await db.insert(publicKeys).values({
+      deviceId: 'dev_carol',
+      did: CAROL,
+      identityKey: keyToHex(generateKeyPair().publicKey),
+      signedPreKey: keyToHex(generateKeyPair().publicKey),
+      signature: '00'.repeat(64),
+    });
+
+    expect((await lookUp(CAROL)).status).toBe(404);
+  });
+});
@@ -1,53 +1,86 @@
 import { NextRequest } from 'next/server';
-import { eq } from 'drizzle-orm';
-import { db, publicKeys, preKeys } from '@/db';
+import { eq, and } from 'drizzle-orm';
+import { db, devices, publicKeys } from '@/db';
+import { optionalAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { claimPreKey, PRE_KEY_CLAIM_RATE_LIMIT } from '@/lib/keys';
+import { hitRateLimit } from '@/lib/ratelimit';
+import { findLogEntry, getTreeSize, getTreeHead, proveInclusion, signTreeHead } from '@/lib/transparency';
 
 /**
- * GET /api/keys/:did - Get public keys for E2EE
- * Public endpoint - no auth required
+ * GET /api/keys/:did - Get public keys for E2EE, one bundle per active device
+ * Public endpoint - auth only needed for one-time pre-keys
+ * ?deviceId=dev_xxx limits the result to one device.
+ * For an authenticated caller each bundle claims one one-time pre-key (rate
+ * limited per caller); put `oneTimePreKeyId` in the X3DH header so the owner
+ * knows which private key to use (and delete). Each entry is an X3DHKeyBundle.
+ * Each bundle comes with an inclusion proof in the key transparency log
+ * against a signed tree head; bundles without a log entry aren't served.
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ did: string }> }
 ) {
+  const identity = await optionalAuth(request);
   const { did } = await params;
+  const url = new URL(request.url);
+  const deviceId = url.searchParams.get('deviceId');
 
   if (!isValidDid(did)) {
     return errorResponse('Invalid DID format');
   }
 
   try {
-    // Get main public key bundle
-    const keyBundle = await db.query.publicKeys.findFirst({
-      where: eq(publicKeys.did, did),
-    });
+    // Bundles of active devices only - pending and revoked devices get no messages
+    const bundles = await db
+      .select({
+        did: publicKeys.did,
+        deviceId: publicKeys.deviceId,
+        identityKey: publicKeys.identityKey,
+        signedPreKey: publicKeys.signedPreKey,
+        signature: publicKeys.signature,
+      })
+      .from(publicKeys)
+      .innerJoin(devices, eq(devices.id, publicKeys.deviceId))
+      .where(
+        and(
+          eq(publicKeys.did, did),
+          eq(devices.status, 'active'),
+          deviceId ? eq(publicKeys.deviceId, deviceId) : undefined
+        )
+      );
 
-    if (!keyBundle) {
+    // Bundles are logged in the same transaction that stores them
+    const logged = [];
+    for (const bundle of bundles) {
+      const logEntry = await findLogEntry(bundle);
+      if (logEntry) logged.push({ bundle, logEntry });
+    }
+
+    if (logged.length === 0) {
       return errorResponse('No keys found for this DID', 404);
     }
 
-    // Get an unused one-time pre-key (if available)
-    const oneTimeKey = await db.query.preKeys.findFirst({
-      where: eq(preKeys.did, did),
-      // TODO: Filter unused keys - Drizzle syntax for this
-    });
-
-    // Mark the pre-key as used if we found one
-    if (oneTimeKey && !oneTimeKey.used) {
-      await db
-        .update(preKeys)
-        .set({ used: true })
-        .where(eq(preKeys.id, oneTimeKey.id));
+    if (identity && !(await hitRateLimit(`pre-key-claims:${identity.id}`, PRE_KEY_CLAIM_RATE_LIMIT))) {
+      return errorResponse('Too many key lookups, try again later', 429);
+    }
+
+    const head = signTreeHead(await getTreeHead(await getTreeSize()));
+
+    const result = [];
+    for (const { bundle, logEntry } of logged) {
+      // Claim an unused one-time pre-key (if any are left) for signed-in callers
+      const oneTimeKey = identity ? await claimPreKey(did, bundle.deviceId) : null;
+      const { proof, leafIndex, leafHash } = await proveInclusion(logEntry, head.treeSize);
+      result.push({
+        ...bundle,
+        oneTimePreKey: oneTimeKey?.key || null,
+        oneTimePreKeyId: oneTimeKey?.id || null,
+        transparency: { ...head, leafIndex, leafHash, proof },
+      });
     }
 
-    return jsonResponse({
-      did: keyBundle.did,
-      identityKey: keyBundle.identityKey,
-      signedPreKey: keyBundle.signedPreKey,
-      signature: keyBundle.signature,
-      oneTimePreKey: oneTimeKey?.key || null,
-    });
+    return jsonResponse({ did, devices: result });
   } catch (error) {
     console.error('Failed to get keys:', error);
     return errorResponse('Failed to get keys', 500);
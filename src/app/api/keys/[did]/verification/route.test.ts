@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, devices } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { generateBundle, uploadBundle } from '@/test/keys';
+import { formatSafetyNumber } from '@/lib/crypto';
+import { GET, PUT } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const bobBundle = generateBundle();
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(devices).values([
+    { id: 'dev_alice', did: ALICE, status: 'active', isFirst: true },
+    { id: 'dev_bob', did: BOB, status: 'active', isFirst: true },
+  ]);
+  await uploadBundle(ALICE, 'dev_alice', generateBundle());
+  await uploadBundle(BOB, 'dev_bob', bobBundle);
+}, 60_000);
+
+async function verification(did: string, contactDid: string) {
+  const response = await GET(authedRequest(did, `/api/keys/${contactDid}/verification`), routeParams({ did: contactDid }));
+  return { status: response.status, ...(await response.json()) };
+}
+
+function verify(did: string, contactDid: string, safetyNumber: string) {
+  return PUT(
+    authedRequest(did, `/api/keys/${contactDid}/verification`, { method: 'PUT', body: { safetyNumber } }),
+    routeParams({ did: contactDid })
+  );
+}
+
+describe('/api/keys/:did/verification', () => {
+  it('gives both parties the same safety number', async () => {
+    const mine = await verification(ALICE, BOB);
+    const theirs = await verification(BOB, ALICE);
+
+    expect(mine).toMatchObject({ status: 200, verified: false });
+    expect(mine.safetyNumber).toMatch(/^\d{60}$/);
+    expect(theirs.safetyNumber).toBe(mine.safetyNumber);
+  });
+
+  it('only verifies the current number', async () => {
+    const { safetyNumber } = await verification(ALICE, BOB);
+    const wrong = safetyNumber.replace(/^\d/, (digit: string) => String((Number(digit) + 1) % 10));
+
+    expect((await verify(ALICE, BOB, wrong)).status).toBe(409);
+    expect((await verify(ALICE, BOB, formatSafetyNumber(safetyNumber))).status).toBe(200);
+    expect(await verification(ALICE, BOB)).toMatchObject({ verified: true, verifiedAt: expect.any(String) });
+    expect((await verification(BOB, ALICE)).verified).toBe(false);
+  });
+
+  it('drops the verification when the contact changes identity key', async () => {
+    const { safetyNumber: before } = await verification(ALICE, BOB);
+    const replaced = await uploadBundle(BOB, 'dev_bob', generateBundle(), {
+      replaceIdentityKey: true,
+      proofKey: bobBundle.identity,
+    });
+    expect(replaced.status).toBe(200);
+
+    const after = await verification(ALICE, BOB);
+    expect(after.safetyNumber).not.toBe(before);
+    expect(after.verified).toBe(false);
+    expect((await verify(ALICE, BOB, before)).status).toBe(409);
+  });
+
+  it('needs keys on both sides', async () => {
+    expect((await verification(ALICE, 'did:imajin:carol')).status).toBe(404);
+  });
+});
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, keyVerifications } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { getSafetyNumber } from '@/lib/keys';
+
+/**
+ * GET /api/keys/:did/verification - Safety number with a contact and whether I verified it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ did: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { did: contactDid } = await params;
+
+  if (!isValidDid(contactDid) || contactDid === identity.id) {
+    return errorResponse('Invalid DID format');
+  }
+
+  try {
+    const safetyNumber = await getSafetyNumber(identity.id, contactDid);
+    if (!safetyNumber) {
+      return errorResponse('Both parties need uploaded keys', 404);
+    }
+
+    const verification = await db.query.keyVerifications.findFirst({
+      where: and(
+        eq(keyVerifications.did, identity.id),
+        eq(keyVerifications.contactDid, contactDid)
+      ),
+    });
+
+    // A verification only counts for the number that was actually compared
+    const verified = verification?.safetyNumber === safetyNumber;
+
+    return jsonResponse({
+      did: contactDid,
+      safetyNumber,
+      verified,
+      verifiedAt: verified ? verification.verifiedAt : null,
+    });
+  } catch (error) {
+    console.error('Failed to get verification:', error);
+    return errorResponse('Failed to get verification', 500);
+  }
+}
+
+/**
+ * PUT /api/keys/:did/verification - Mark a contact's keys as verified
+ * Body: { safetyNumber } - the number compared out-of-band; must be current
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ did: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { did: contactDid } = await params;
+
+  if (!isValidDid(contactDid) || contactDid === identity.id) {
+    return errorResponse('Invalid DID format');
+  }
+
+  try {
+    const body = await request.json();
+    const safetyNumber = typeof body.safetyNumber === 'string'
+      ? body.safetyNumber.replace(/\s+/g, '')
+      : null;
+
+    if (!safetyNumber || !/^\d{60}$/.test(safetyNumber)) {
+      return errorResponse('safetyNumber must be 60 digits');
+    }
+
+    const current = await getSafetyNumber(identity.id, contactDid);
+    if (!current) {
+      return errorResponse('Both parties need uploaded keys', 404);
+    }
+
+    if (safetyNumber !== current) {
+      return errorResponse('Safety number does not match the current keys', 409);
+    }
+
+    const verifiedAt = new Date();
+
+    await db
+      .insert(keyVerifications)
+      .values({ did: identity.id, contactDid, safetyNumber, verifiedAt })
+      .onConflictDoUpdate({
+        target: [keyVerifications.did, keyVerifications.contactDid],
+        set: { safetyNumber, verifiedAt },
+      });
+
+    return jsonResponse({ did: contactDid, safetyNumber, verified: true, verifiedAt });
+  } catch (error) {
+    console.error('Failed to verify keys:', error);
+    return errorResponse('Failed to verify keys', 500);
+  }
+}
+
+/**
+ * DELETE /api/keys/:did/verification - Clear my verification of a contact
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ did: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { did: contactDid } = await params;
+
+  try {
+    await db
+      .delete(keyVerifications)
+      .where(
+        and(
+          eq(keyVerifications.did, identity.id),
+          eq(keyVerifications.contactDid, contactDid)
+        )
+      );
+
+    return jsonResponse({ did: contactDid, verified: false });
+  } catch (error) {
+    console.error('Failed to clear verification:', error);
+    return errorResponse('Failed to clear verification', 500);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { getLogEntries } from '@/lib/transparency';
+
+/**
+ * GET /api/keys/log/entries - Entries of the key transparency log
+ * Public endpoint - no auth required
+ * ?did=did:xxx limits to one identity (watch your own for keys you didn't publish)
+ * ?start=N&limit=M pages by log position
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const did = url.searchParams.get('did');
+  const start = parseInt(url.searchParams.get('start') || '0');
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '100'), 500);
+
+  if (did && !isValidDid(did)) {
+    return errorResponse('Invalid DID format');
+  }
+
+  if (!Number.isFinite(start) || start < 0) {
+    return errorResponse('start must be a non-negative number');
+  }
+
+  if (!Number.isFinite(limit) || limit < 1) {
+    return errorResponse('limit must be a positive number');
+  }
+
+  try {
+    const entries = await getLogEntries({ did: did ?? undefined, start, limit });
+
+    return jsonResponse({
+      entries: entries.map((entry) => ({
+        position: entry.position,
+        did: entry.did,
+        deviceId: entry.deviceId,
+        identityKey: entry.identityKey,
+        signedPreKey: entry.signedPreKey,
+        signature: entry.signature,
+        leafHash: entry.leafHash,
+        createdAt: entry.createdAt,
+      })),
+      next: entries.length === limit ? entries[entries.length - 1].position + 1 : null,
+    });
+  } catch (error) {
+    console.error('Failed to get key log entries:', error);
+    return errorResponse('Failed to get key log entries', 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { getTreeSize, getTreeHead, proveConsistency, signTreeHead, getLogPublicKey } from '@/lib/transparency';
+
+/**
+ * GET /api/keys/log - Current signed tree head of the key transparency log
+ * Public endpoint - no auth required
+ * Returns { treeSize, timestamp, rootHash, signature, publicKey }; check the
+ * signature with verifyTreeHead against the pinned log key.
+ * ?since=N adds a consistency proof from the head of size N, so auditors can
+ * check the log only grew since they last looked.
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const sinceParam = url.searchParams.get('since');
+
+  try {
+    const treeSize = await getTreeSize();
+
+    if (sinceParam === null) {
+      return jsonResponse({ ...signTreeHead(await getTreeHead(treeSize)), publicKey: getLogPublicKey() });
+    }
+
+    const since = Number(sinceParam);
+    if (!Number.isInteger(since) || since < 0 || since > treeSize) {
+      return errorResponse(`since must be between 0 and the tree size (${treeSize})`);
+    }
+
+    const { rootHash, proof } = await proveConsistency(since, treeSize);
+    return jsonResponse({ ...signTreeHead({ treeSize, rootHash }), publicKey: getLogPublicKey(), since, proof });
+  } catch (error) {
+    console.error('Failed to get key log:', error);
+    return errorResponse('Failed to get key log', 500);
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, devices } from '@/test/db';
+import { authedRequest, authPrivateKey } from '@/test/auth';
+import { generateBundle, uploadBundle } from '@/test/keys';
+import { keyToHex } from '@/lib/crypto';
+import { POST as uploadKeys, GET as getOwnKeys } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(devices).values({ id: 'dev_alice', did: ALICE, status: 'active', isFirst: true });
+}, 60_000);
+
+describe('POST /api/keys', () => {
+  it('refuses a signed pre-key not signed by the DID key', async () => {
+    const bundle = generateBundle();
+    const response = await uploadBundle(ALICE, 'dev_alice', bundle, { preKeySigner: authPrivateKey('did:imajin:mallory') });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid signature on signedPreKey');
+  });
+
+  it('refuses keys that are not 32-byte hex', async () => {
+    const response = await uploadKeys(
+      authedRequest(ALICE, '/api/keys', {
+        method: 'POST',
+        body: { identityKey: 'abcd', signedPreKey: 'abcd', signature: '00'.repeat(64) },
+        headers: { 'X-Device-Id': 'dev_alice' },
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('stores a bundle signed by the DID key', async () => {
+    const bundle = generateBundle(1);
+    expect((await uploadBundle(ALICE, 'dev_alice', bundle)).status).toBe(200);
+
+    const response = await getOwnKeys(authedRequest(ALICE, '/api/keys', { headers: { 'X-Device-Id': 'dev_alice' } }));
+    expect(await response.json()).toMatchObject({ signedPreKey: keyToHex(bundle.signedPreKey.publicKey) });
+  });
+});
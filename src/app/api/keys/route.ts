@@ -3,9 +3,27 @@ import { eq } from 'drizzle-orm';
 import { db, publicKeys, preKeys } from '@/db';
 import { requireAuth } from '@/lib/auth';
 import { jsonResponse, errorResponse, generateId } from '@/lib/utils';
+import { isHexKey, verifyPreKeySignature } from '@/lib/crypto';
+import {
+  recordIdentityKeyChange,
+  getLastIdentityKey,
+  countPreKeys,
+  rearmPreKeyWarning,
+  PRE_KEY_LOW_WATERMARK,
+} from '@/lib/keys';
+import { requireDevice, requireDeviceProof, deviceStatement } from '@/lib/devices';
+import { appendKeyLog } from '@/lib/transparency';
+
+const MAX_PRE_KEYS_PER_UPLOAD = 100;
 
 /**
- * POST /api/keys - Upload/update public key bundle
+ * POST /api/keys - Upload/update the calling device's public key bundle
+ * Headers: X-Device-Id (an active device), X-Device-Proof (its signature over
+ * { action: 'key-bundle', did, deviceId, identityKey, signedPreKey } by its
+ * current identity key, or by the uploaded one if it has none yet)
+ * Body: { identityKey, signedPreKey, signature, oneTimePreKeys?, replaceIdentityKey? }
+ * `signature` is the Ed25519 signature of signedPreKey by the identity's auth key.
+ * A recovered device's first upload replaces the identity key the DID had last.
  */
 export async function POST(request: NextRequest) {
   const authResult = await requireAuth(request);
@@ -16,54 +34,105 @@ export async function POST(request: NextRequest) {
   const { identity } = authResult;
 
   try {
+    const deviceResult = await requireDevice(request, identity.id);
+    if ('error' in deviceResult) {
+      return errorResponse(deviceResult.error, deviceResult.status);
+    }
+
+    const { device } = deviceResult;
     const body = await request.json();
-    const { identityKey, signedPreKey, signature, oneTimePreKeys } = body;
+    const { identityKey, signedPreKey, signature, oneTimePreKeys, replaceIdentityKey } = body;
 
     // Validate required fields
     if (!identityKey || !signedPreKey || !signature) {
       return errorResponse('identityKey, signedPreKey, and signature are required');
     }
 
-    // TODO: Verify signature on signedPreKey using identityKey
+    if (!isHexKey(identityKey) || !isHexKey(signedPreKey)) {
+      return errorResponse('identityKey and signedPreKey must be 32-byte hex-encoded X25519 keys');
+    }
+
+    if (oneTimePreKeys !== undefined) {
+      if (!Array.isArray(oneTimePreKeys) || oneTimePreKeys.length > MAX_PRE_KEYS_PER_UPLOAD) {
+        return errorResponse(`oneTimePreKeys must be an array of at most ${MAX_PRE_KEYS_PER_UPLOAD} keys`);
+      }
+      if (!oneTimePreKeys.every((key) => isHexKey(key))) {
+        return errorResponse('oneTimePreKeys must be 32-byte hex-encoded X25519 keys');
+      }
+    }
+
+    // The signed pre-key must be signed by the identity's Ed25519 key from the auth service
+    if (!verifyPreKeySignature(signedPreKey, signature, identity.publicKey)) {
+      return errorResponse('Invalid signature on signedPreKey', 400);
+    }
+
+    const proofError = await requireDeviceProof(
+      request,
+      device,
+      deviceStatement('key-bundle', device, { identityKey, signedPreKey }),
+      identityKey
+    );
+    if (proofError) {
+      return errorResponse(proofError.error, proofError.status);
+    }
 
-    // Upsert main key bundle
+    // Upsert the device's key bundle
     const existing = await db.query.publicKeys.findFirst({
-      where: eq(publicKeys.did, identity.id),
+      where: eq(publicKeys.deviceId, device.id),
     });
 
-    if (existing) {
-      await db
-        .update(publicKeys)
-        .set({
-          identityKey,
-          signedPreKey,
-          signature,
-          updatedAt: new Date(),
-        })
-        .where(eq(publicKeys.did, identity.id));
-    } else {
-      await db.insert(publicKeys).values({
-        did: identity.id,
-        identityKey,
-        signedPreKey,
-        signature,
-      });
+    const previousIdentityKey = existing?.identityKey
+      ?? (device.recovered ? await getLastIdentityKey(identity.id) : null);
+    const identityKeyChanged = !!previousIdentityKey && previousIdentityKey !== identityKey;
+
+    // Contacts' sessions break on a new identity key; only replace it on request
+    if (identityKeyChanged && replaceIdentityKey !== true) {
+      return errorResponse('identityKey differs from the registered one; set replaceIdentityKey to replace it', 409);
     }
 
-    // Add one-time pre-keys if provided
-    if (oneTimePreKeys && Array.isArray(oneTimePreKeys)) {
-      for (const key of oneTimePreKeys) {
-        await db.insert(preKeys).values({
-          id: generateId('pk'),
-          did: identity.id,
-          key,
-        });
-      }
+    const bundle = { did: identity.id, deviceId: device.id, identityKey, signedPreKey, signature };
+    const write = existing
+      ? db
+          .update(publicKeys)
+          .set({
+            identityKey,
+            signedPreKey,
+            signature,
+            updatedAt: new Date(),
+          })
+          .where(eq(publicKeys.deviceId, device.id))
+      : db.insert(publicKeys).values(bundle);
+
+    // The bundle and its log entry commit together
+    const logEntry = await appendKeyLog(bundle, write);
+
+    if (identityKeyChanged) {
+      await recordIdentityKeyChange(identity.id, device.id, previousIdentityKey, identityKey);
+    }
+
+    // Add one-time pre-keys if provided; IDs let the owner match X3DH headers to private keys
+    const addedPreKeys = oneTimePreKeys?.length
+      ? await db
+          .insert(preKeys)
+          .values(oneTimePreKeys.map((key: string) => ({
+            id: generateId('pk'),
+            did: identity.id,
+            deviceId: device.id,
+            key,
+          })))
+          .returning({ id: preKeys.id, key: preKeys.key })
+      : [];
+
+    if (addedPreKeys.length > 0) {
+      await rearmPreKeyWarning(device.id);
     }
 
     return jsonResponse({ 
       success: true,
-      preKeysAdded: oneTimePreKeys?.length || 0,
+      preKeysAdded: addedPreKeys.length,
+      preKeys: addedPreKeys,
+      identityKeyChanged,
+      keyLogPosition: logEntry.position,
     });
   } catch (error) {
     console.error('Failed to upload keys:', error);
@@ -72,7 +141,8 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/keys - Get your own keys (for verification)
+ * GET /api/keys - Get the calling device's keys (for verification)
+ * Header: X-Device-Id
  */
 export async function GET(request: NextRequest) {
   const authResult = await requireAuth(request);
@@ -83,23 +153,26 @@ export async function GET(request: NextRequest) {
   const { identity } = authResult;
 
   try {
+    const deviceResult = await requireDevice(request, identity.id);
+    if ('error' in deviceResult) {
+      return errorResponse(deviceResult.error, deviceResult.status);
+    }
+
     const keyBundle = await db.query.publicKeys.findFirst({
-      where: eq(publicKeys.did, identity.id),
+      where: eq(publicKeys.deviceId, deviceResult.device.id),
     });
 
     if (!keyBundle) {
       return errorResponse('No keys uploaded', 404);
     }
 
-    // Count unused pre-keys
-    const unusedPreKeys = await db.query.preKeys.findMany({
-      where: eq(preKeys.did, identity.id),
-    });
-    const unusedCount = unusedPreKeys.filter(k => !k.used).length;
+    const unusedCount = await countPreKeys(keyBundle.deviceId);
 
     return jsonResponse({
       ...keyBundle,
       unusedPreKeyCount: unusedCount,
+      preKeyLowWatermark: PRE_KEY_LOW_WATERMARK,
+      needsPreKeys: unusedCount < PRE_KEY_LOW_WATERMARK,
     });
   } catch (error) {
     console.error('Failed to get keys:', error);
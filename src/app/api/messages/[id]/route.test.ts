@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, migrated, conversations, participants, messages, messageEdits } from '@/test/db';
+import { authedRequest, authPrivateKey, routeParams } from '@/test/auth';
+import { signMessage } from '@/lib/crypto';
+import { GET as getMessage, PATCH as editMessage, DELETE as deleteMessage } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+const CONVERSATION_ID = 'conv_edits';
+
+function text(encrypted: string) {
+  return { encrypted, nonce: 'nonce', senderKey: { keyEpoch: 0, keyId: 1, iteration: 0 } };
+}
+
+beforeAll(async () => {
+  await migrated;
+
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner', joinedAt: new Date('2020-01-01') },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member', joinedAt: new Date('2020-01-01') },
+  ]);
+  await db.insert(messages).values([
+    { id: 'msg_edited', conversationId: CONVERSATION_ID, fromDid: ALICE, content: text('first') },
+    { id: 'msg_deleted', conversationId: CONVERSATION_ID, fromDid: ALICE, content: text('gone') },
+  ]);
+}, 60_000);
+
+function edit(did: string, id: string, content: unknown) {
+  return editMessage(authedRequest(did, `/api/messages/${id}`, { method: 'PATCH', body: { content } }), routeParams({ id }));
+}
+
+function get(did: string, id: string) {
+  return getMessage(authedRequest(did, `/api/messages/${id}`), routeParams({ id }));
+}
+
+function remove(did: string, id: string) {
+  return deleteMessage(authedRequest(did, `/api/messages/${id}`, { method: 'DELETE' }), routeParams({ id }));
+}
+
+describe('PATCH /api/messages/:id', () => {
+  it('keeps the previous version as an edit', async () => {
+    expect((await edit(ALICE, 'msg_edited', text('second'))).status).toBe(200);
+
+    const { message, edits } = await (await get(BOB, 'msg_edited')).json();
+    expect(message.content.encrypted).toBe('second');
+    expect(edits.map((edit: { content: { encrypted: string } }) => edit.content.encrypted)).toEqual(['first']);
+  });
+
+  it("needs an edit's signature to be by the sender", async () => {
+    const content = text('signed');
+    const forged = { ...content, signature: signMessage(CONVERSATION_ID, ALICE, content, authPrivateKey(BOB)) };
+    const signed = { ...content, signature: signMessage(CONVERSATION_ID, ALICE, content, authPrivateKey(ALICE)) };
+
+    expect((await edit(ALICE, 'msg_edited', forged)).status).toBe(400);
+    expect((await edit(ALICE, 'msg_edited', signed)).status).toBe(200);
+  });
+
+  it('only lets the sender edit', async () => {
+    expect((await edit(BOB, 'msg_edited', text('forged'))).status).toBe(403);
+  });
+});
+
+describe('DELETE /api/messages/:id', () => {
+  it('leaves a tombstone without content or edits, and no more edits', async () => {
+    expect((await edit(ALICE, 'msg_deleted', text('edited'))).status).toBe(200);
+    expect((await remove(ALICE, 'msg_deleted')).status).toBe(200);
+
+    const { message, edits } = await (await get(BOB, 'msg_deleted')).json();
+    expect(message).toMatchObject({ id: 'msg_deleted', content: null, deleted: true });
+    expect(edits).toEqual([]);
+
+    expect((await edit(ALICE, 'msg_deleted', text('again'))).status).toBe(404);
+    expect(await db.select().from(messageEdits).where(eq(messageEdits.messageId, 'msg_deleted'))).toEqual([]);
+  });
+
+  it('only shows the tombstone to participants who were there when it was deleted', async () => {
+    await db.insert(participants).values({ conversationId: CONVERSATION_ID, did: CAROL, role: 'member' });
+
+    expect((await get(CAROL, 'msg_deleted')).status).toBe(404);
+    expect((await get(CAROL, 'msg_edited')).status).toBe(200);
+  });
+
+  it('only lets the sender or an admin delete', async () => {
+    expect((await remove(BOB, 'msg_edited')).status).toBe(403);
+  });
+});
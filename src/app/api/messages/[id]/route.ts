@@ -0,0 +1,257 @@
+import { NextRequest } from 'next/server';
+import { eq, and, asc, isNull, sql } from 'drizzle-orm';
+import { db, conversations, participants, messages, messageEdits } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, generateId, hasRole } from '@/lib/utils';
+import { toTombstone, hasValidSignature, getCommitment } from '@/lib/messaging';
+import { publishToConversation } from '@/lib/realtime';
+import { logChange, wroteRows } from '@/lib/changes';
+import { usesCurrentSenderKey } from '@/lib/rekey';
+import { requireDevice, checkDeviceFanOut } from '@/lib/devices';
+import { canonicalJson } from '@/lib/crypto';
+import { hasBlocked } from '@/lib/blocks';
+
+/**
+ * Load a message and the caller's participant row in its conversation
+ */
+async function findMessageForParticipant(messageId: string, did: string) {
+  const message = await db.query.messages.findFirst({
+    where: eq(messages.id, messageId),
+  });
+
+  if (!message) {
+    return { message: null, participant: null };
+  }
+
+  const participant = await db.query.participants.findFirst({
+    where: and(
+      eq(participants.conversationId, message.conversationId),
+      eq(participants.did, did)
+    ),
+  });
+
+  return { message, participant: participant ?? null };
+}
+
+/**
+ * GET /api/messages/:id - Get a message with its edit history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: messageId } = await params;
+
+  try {
+    const { message, participant } = await findMessageForParticipant(messageId, identity.id);
+
+    if (!message || !participant) {
+      return errorResponse('Message not found', 404);
+    }
+
+    // Hidden like in the message list
+    if (await hasBlocked(identity.id, message.fromDid)) {
+      return errorResponse('Message not found', 404);
+    }
+
+    if (message.deletedAt) {
+      // Tombstones are for participants who were there when it was deleted,
+      // as in the message list
+      if (!(participant.joinedAt && message.deletedAt > participant.joinedAt)) {
+        return errorResponse('Message not found', 404);
+      }
+      return jsonResponse({ message: toTombstone(message), edits: [] });
+    }
+
+    const edits = await db.query.messageEdits.findMany({
+      where: eq(messageEdits.messageId, messageId),
+      orderBy: [asc(messageEdits.editedAt)],
+    });
+
+    return jsonResponse({ message, edits });
+  } catch (error) {
+    console.error('Failed to get message:', error);
+    return errorResponse('Failed to get message', 500);
+  }
+}
+
+/**
+ * PATCH /api/messages/:id - Edit a message (sender only)
+ * Body: { content } - the re-encrypted content
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: messageId } = await params;
+
+  try {
+    const { message, participant } = await findMessageForParticipant(messageId, identity.id);
+
+    if (!message || !participant || message.deletedAt) {
+      return errorResponse('Message not found', 404);
+    }
+
+    if (message.fromDid !== identity.id || message.contentType !== 'text') {
+      return errorResponse('Only the sender can edit this message', 403);
+    }
+
+    if (participant.role === 'readonly') {
+      return errorResponse('You do not have permission to send messages', 403);
+    }
+
+    const body = await request.json();
+    const { content } = body;
+
+    if (!content || typeof content !== 'object' || content.type === 'system') {
+      return errorResponse('content is required and must be an object');
+    }
+
+    if (!hasValidSignature(message.conversationId, identity, content)) {
+      return errorResponse('Invalid message signature');
+    }
+
+    const commitment = getCommitment(content);
+    if (commitment === undefined) {
+      return errorResponse('commitment must be a hex HMAC-SHA256');
+    }
+
+    // The attachments were claimed by this message when it was sent
+    const previous = message.content as Record<string, unknown>;
+    if (canonicalJson(content.attachments ?? null) !== canonicalJson(previous.attachments ?? null)) {
+      return errorResponse('Attachments cannot be changed by editing');
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, message.conversationId),
+    });
+
+    if (conversation && !usesCurrentSenderKey(conversation, content)) {
+      return errorResponse(`Sender key rotation required (keyEpoch ${conversation.keyEpoch})`, 409);
+    }
+
+    // Per-device envelopes, as when sending
+    if (conversation?.type === 'direct') {
+      const deviceResult = await requireDevice(request, identity.id);
+      if ('error' in deviceResult) {
+        return errorResponse(deviceResult.error, deviceResult.status);
+      }
+
+      const members = await db.query.participants.findMany({
+        where: eq(participants.conversationId, conversation.id),
+      });
+      const mismatch = await checkDeviceFanOut(content, members.map((m) => m.did), deviceResult.device.id);
+      if (mismatch) {
+        return jsonResponse({ error: 'Device list changed', ...mismatch }, 409);
+      }
+    }
+
+    // Keep the previous version before overwriting. The row is locked first so
+    // the version kept is the one overwritten, and a message deleted since it
+    // was loaded gets neither an edit row nor new content.
+    const live = and(eq(messages.id, messageId), isNull(messages.deletedAt));
+    const column = (name: 'id' | 'messageId' | 'content') => sql.identifier(messageEdits[name].name);
+    const [, , updatedRows] = await db.batch([
+      db.execute(sql`select 1 from ${messages} where ${live} for update`),
+      db.execute(sql`
+        insert into ${messageEdits} (${column('id')}, ${column('messageId')}, ${column('content')})
+        select ${generateId('edit')}, ${messages.id}, ${messages.content} from ${messages}
+        where ${live}
+      `),
+      db
+        .update(messages)
+        .set({ content, commitment, editedAt: new Date() })
+        .where(live)
+        .returning(),
+      logChange(
+        { type: 'message.edited', id: messageId },
+        { conversationId: message.conversationId },
+        wroteRows(messages, eq(messages.id, messageId))
+      ),
+    ]);
+
+    const [updated] = updatedRows;
+    if (!updated) {
+      return errorResponse('Message not found', 404);
+    }
+
+    await publishToConversation(updated.conversationId, { type: 'message.edited', ...updated });
+
+    return jsonResponse({ message: updated });
+  } catch (error) {
+    console.error('Failed to edit message:', error);
+    return errorResponse('Failed to edit message', 500);
+  }
+}
+
+/**
+ * DELETE /api/messages/:id - Delete a message (sender, or admin+ of the conversation)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: messageId } = await params;
+
+  try {
+    const { message, participant } = await findMessageForParticipant(messageId, identity.id);
+
+    if (!message || !participant) {
+      return errorResponse('Message not found', 404);
+    }
+
+    if (message.deletedAt) {
+      return jsonResponse({ deleted: true, message: toTombstone(message) });
+    }
+
+    const isSender = message.fromDid === identity.id;
+    if (!isSender && !hasRole(participant.role, 'admin')) {
+      return errorResponse('Permission denied', 403);
+    }
+
+    // Drop the ciphertext and its history; the row stays as a tombstone
+    const [, [deleted]] = await db.batch([
+      db.delete(messageEdits).where(eq(messageEdits.messageId, messageId)),
+      db
+        .update(messages)
+        .set({ content: {}, deletedAt: new Date() })
+        .where(eq(messages.id, messageId))
+        .returning(),
+      logChange(
+        { type: 'message.deleted', id: messageId, deletedBy: identity.id },
+        { conversationId: message.conversationId }
+      ),
+    ]);
+
+    const tombstone = toTombstone(deleted);
+
+    await publishToConversation(deleted.conversationId, {
+      type: 'message.deleted',
+      ...tombstone,
+      deletedBy: identity.id,
+    });
+
+    return jsonResponse({ deleted: true, message: tombstone });
+  } catch (error) {
+    console.error('Failed to delete message:', error);
+    return errorResponse('Failed to delete message', 500);
+  }
+}
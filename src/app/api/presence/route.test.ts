@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants, blocks } from '@/test/db';
+import { authedRequest } from '@/test/auth';
+import { connectPresence, disconnectPresence } from '@/lib/presence';
+import { GET, PATCH } from './route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CAROL = 'did:imajin:carol';
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: 'conv_presence', type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: 'conv_presence', did: ALICE, role: 'owner' },
+    { conversationId: 'conv_presence', did: BOB, role: 'member' },
+  ]);
+  await connectPresence(BOB);
+}, 60_000);
+
+async function presenceOf(viewer: string, did: string) {
+  const response = await GET(authedRequest(viewer, `/api/presence?dids=${did}`));
+  expect(response.status).toBe(200);
+  const { presence } = await response.json();
+  return presence[0] as { did: string; status: string; lastSeen: string | null } | undefined;
+}
+
+function setVisibility(did: string, visibility: string) {
+  return PATCH(authedRequest(did, '/api/presence', { method: 'PATCH', body: { visibility } }));
+}
+
+describe('GET /api/presence', () => {
+  it('shows presence only to DIDs sharing a conversation by default', async () => {
+    expect(await presenceOf(ALICE, BOB)).toMatchObject({ did: BOB, status: 'online' });
+    expect(await presenceOf(CAROL, BOB)).toBeUndefined();
+  });
+
+  it('honors nobody and everyone, and always shows a DID its own presence', async () => {
+    expect((await setVisibility(BOB, 'nobody')).status).toBe(200);
+    expect(await presenceOf(ALICE, BOB)).toBeUndefined();
+    expect(await presenceOf(BOB, BOB)).toMatchObject({ status: 'online' });
+
+    expect((await setVisibility(BOB, 'everyone')).status).toBe(200);
+    expect(await presenceOf(CAROL, BOB)).toMatchObject({ status: 'online' });
+  });
+
+  it('hides presence from DIDs it was blocked for', async () => {
+    await db.insert(blocks).values({ did: BOB, blockedDid: CAROL });
+    expect(await presenceOf(CAROL, BOB)).toBeUndefined();
+    expect(await presenceOf(ALICE, BOB)).toMatchObject({ status: 'online' });
+  });
+
+  it('goes offline with a last-seen time when the last socket closes', async () => {
+    await connectPresence(BOB);
+    await disconnectPresence(BOB);
+    expect(await presenceOf(ALICE, BOB)).toMatchObject({ status: 'online' });
+
+    await disconnectPresence(BOB);
+    const offline = await presenceOf(ALICE, BOB);
+    expect(offline).toMatchObject({ status: 'offline', lastSeen: expect.any(String) });
+  });
+
+  it('validates the request', async () => {
+    expect((await GET(authedRequest(ALICE, '/api/presence'))).status).toBe(400);
+    expect((await setVisibility(BOB, 'friends')).status).toBe(400);
+  });
+});
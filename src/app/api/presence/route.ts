@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, isValidDid } from '@/lib/utils';
+import { getVisiblePresence, setPresenceVisibility, PRESENCE_VISIBILITIES, type PresenceVisibility } from '@/lib/presence';
+
+const MAX_DIDS = 100;
+
+/**
+ * GET /api/presence?dids=did1,did2 - Get online status / last seen
+ * DIDs whose visibility hides them from the caller are omitted
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const url = new URL(request.url);
+  const dids = Array.from(new Set(
+    (url.searchParams.get('dids') || '').split(',').map((did) => did.trim()).filter(Boolean)
+  ));
+
+  if (dids.length === 0) {
+    return errorResponse('dids is required');
+  }
+
+  if (dids.length > MAX_DIDS) {
+    return errorResponse(`At most ${MAX_DIDS} DIDs per request`);
+  }
+
+  for (const did of dids) {
+    if (!isValidDid(did)) {
+      return errorResponse(`Invalid DID: ${did}`);
+    }
+  }
+
+  try {
+    const result = await getVisiblePresence(identity.id, dids);
+    return jsonResponse({ presence: result });
+  } catch (error) {
+    console.error('Failed to get presence:', error);
+    return errorResponse('Failed to get presence', 500);
+  }
+}
+
+/**
+ * PATCH /api/presence - Update your presence privacy
+ * Body: { visibility: 'everyone' | 'shared' | 'nobody' }
+ */
+export async function PATCH(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const body = await request.json();
+    const { visibility } = body;
+
+    if (!PRESENCE_VISIBILITIES.includes(visibility)) {
+      return errorResponse(`visibility must be one of: ${PRESENCE_VISIBILITIES.join(', ')}`);
+    }
+
+    const row = await setPresenceVisibility(identity.id, visibility as PresenceVisibility);
+
+    return jsonResponse({ visibility: row.visibility });
+  } catch (error) {
+    console.error('Failed to update presence settings:', error);
+    return errorResponse('Failed to update presence settings', 500);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db, reports } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import {
+  REPORT_STATUSES,
+  MAX_REPORT_DETAILS_LENGTH,
+  isModerator,
+  toReportView,
+  transitionReport,
+  type ReportStatus,
+} from '@/lib/reports';
+
+/**
+ * GET /api/reports/:id - Get a report (its reporter, or moderators)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: reportId } = await params;
+
+  try {
+    const report = await db.query.reports.findFirst({
+      where: eq(reports.id, reportId),
+    });
+
+    const moderator = isModerator(identity.id);
+    if (!report || (report.reporterDid !== identity.id && !moderator)) {
+      return errorResponse('Report not found', 404);
+    }
+
+    return jsonResponse({ report: toReportView(report, moderator) });
+  } catch (error) {
+    console.error('Failed to get report:', error);
+    return errorResponse('Failed to get report', 500);
+  }
+}
+
+/**
+ * PATCH /api/reports/:id - Change a report's status (moderators only)
+ * Body: { status, resolution? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const { id: reportId } = await params;
+
+  if (!isModerator(identity.id)) {
+    return errorResponse('Permission denied', 403);
+  }
+
+  try {
+    const body = await request.json();
+    const { status, resolution } = body;
+
+    if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+      return errorResponse(`status must be one of: ${REPORT_STATUSES.join(', ')}`);
+    }
+
+    if (resolution !== undefined && (typeof resolution !== 'string' || resolution.length > MAX_REPORT_DETAILS_LENGTH)) {
+      return errorResponse(`resolution must be a string of at most ${MAX_REPORT_DETAILS_LENGTH} characters`);
+    }
+
+    const report = await db.query.reports.findFirst({
+      where: eq(reports.id, reportId),
+    });
+
+    if (!report) {
+      return errorResponse('Report not found', 404);
+    }
+
+    const result = await transitionReport(report, status as ReportStatus, identity.id, resolution);
+    if ('error' in result) {
+      return errorResponse(result.error, result.status);
+    }
+
+    return jsonResponse({ report: toReportView(result.report, true) });
+  } catch (error) {
+    console.error('Failed to update report:', error);
+    return errorResponse('Failed to update report', 500);
+  }
+}
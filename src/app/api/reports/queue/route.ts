@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { REPORT_STATUSES, isModerator, listReportQueue, toReportView, type ReportStatus } from '@/lib/reports';
+
+/**
+ * GET /api/reports/queue?status=open - Moderation queue, oldest first (moderators only)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  if (!isModerator(identity.id)) {
+    return errorResponse('Permission denied', 403);
+  }
+
+  const url = new URL(request.url);
+  const status = url.searchParams.get('status') || 'open';
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+
+  if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+    return errorResponse(`status must be one of: ${REPORT_STATUSES.join(', ')}`);
+  }
+
+  if (!Number.isFinite(limit) || limit < 1) {
+    return errorResponse('limit must be a positive number');
+  }
+
+  try {
+    const result = await listReportQueue(status as ReportStatus, limit);
+    return jsonResponse({ reports: result.map((report) => toReportView(report, true)) });
+  } catch (error) {
+    console.error('Failed to list reports:', error);
+    return errorResponse('Failed to list reports', 500);
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { db, migrated, conversations, participants, messages, messageEdits } from '@/test/db';
+import { authedRequest, routeParams } from '@/test/auth';
+import { commitMessage, generateFrankingKey, keyToHex } from '@/lib/crypto';
+import { POST as report } from './route';
+import { GET as getReport, PATCH as updateReport } from './[id]/route';
+import { DELETE as deleteMessage } from '../messages/[id]/route';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const MODERATOR = 'did:imajin:moderator';
+const CONVERSATION_ID = 'conv_reports';
+
+const firstKey = generateFrankingKey();
+const currentKey = generateFrankingKey();
+
+beforeAll(async () => {
+  await migrated;
+  process.env.MODERATOR_DIDS = MODERATOR;
+
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+  ]);
+
+  // Bob's message, edited once: each version kept its commitment
+  const commitment = (plaintext: string, key: Uint8Array) => commitMessage(CONVERSATION_ID, BOB, plaintext, key);
+  await db.insert(messages).values([
+    {
+      id: 'msg_abuse',
+      conversationId: CONVERSATION_ID,
+      fromDid: BOB,
+      content: { encrypted: 'v2', commitment: commitment('edited abuse', currentKey) },
+      commitment: commitment('edited abuse', currentKey),
+    },
+    { id: 'msg_plain', conversationId: CONVERSATION_ID, fromDid: BOB, content: {} },
+  ]);
+  await db.insert(messageEdits).values({
+    id: 'edit_abuse',
+    messageId: 'msg_abuse',
+    content: { encrypted: 'v1', commitment: commitment('first abuse', firstKey) },
+  });
+}, 60_000);
+
+function reportAs(did: string, body: object) {
+  return report(authedRequest(did, '/api/reports', { method: 'POST', body }));
+}
+
+function disclose(plaintext: string, key: Uint8Array) {
+  return { messageId: 'msg_abuse', reason: 'harassment', disclosure: { plaintext, frankingKey: keyToHex(key) } };
+}
+
+describe('POST /api/reports', () => {
+  it('only accepts disclosures that open a commitment of the message', async () => {
+    expect((await reportAs(ALICE, disclose('something else', currentKey))).status).toBe(400);
+    expect((await reportAs(ALICE, disclose('first abuse', currentKey))).status).toBe(400);
+
+    const response = await reportAs(ALICE, disclose('first abuse', firstKey));
+    expect(response.status).toBe(201);
+    expect((await response.json()).report).toMatchObject({ verified: true, disclosedPlaintext: 'first abuse' });
+
+    expect((await reportAs(ALICE, disclose('first abuse', firstKey))).status).toBe(409);
+  });
+
+  it("keeps the current version's commitment when the message is deleted", async () => {
+    const deleted = await deleteMessage(
+      authedRequest(BOB, '/api/messages/msg_abuse', { method: 'DELETE' }),
+      routeParams({ id: 'msg_abuse' })
+    );
+    expect(deleted.status).toBe(200);
+
+    // Only participants can report it
+    expect((await reportAs(MODERATOR, disclose('edited abuse', currentKey))).status).toBe(404);
+    await db.insert(participants).values({ conversationId: CONVERSATION_ID, did: MODERATOR, role: 'member' });
+    expect((await reportAs(MODERATOR, disclose('first abuse', firstKey))).status).toBe(400);
+    expect((await reportAs(MODERATOR, disclose('edited abuse', currentKey))).status).toBe(201);
+  });
+
+  it('takes reports without a disclosure as unverified, but not of your own messages', async () => {
+    expect((await reportAs(BOB, { messageId: 'msg_plain', reason: 'spam' })).status).toBe(400);
+
+    const response = await reportAs(ALICE, { messageId: 'msg_plain', reason: 'spam' });
+    expect((await response.json()).report).toMatchObject({ verified: false, disclosedPlaintext: null });
+  });
+});
+
+describe('/api/reports/:id', () => {
+  it('shows the reporter less than moderators, and only moderators move it', async () => {
+    const { report: filed } = await (await reportAs(ALICE, { did: BOB, reason: 'impersonation' })).json();
+    const view = (did: string) => getReport(authedRequest(did, `/api/reports/${filed.id}`), routeParams({ id: filed.id }));
+    const move = (did: string, status: string) =>
+      updateReport(
+        authedRequest(did, `/api/reports/${filed.id}`, { method: 'PATCH', body: { status } }),
+        routeParams({ id: filed.id })
+      );
+
+    expect((await (await view(ALICE)).json()).report).not.toHaveProperty('reporterDid');
+    expect((await (await view(MODERATOR)).json()).report).toMatchObject({ reporterDid: ALICE });
+    expect((await view(BOB)).status).toBe(404);
+
+    expect((await move(ALICE, 'dismissed')).status).toBe(403);
+    expect((await move(MODERATOR, 'actioned')).status).toBe(200);
+    expect((await move(MODERATOR, 'open')).status).toBe(409);
+  });
+});
@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, participants, messages, reports } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse, generateId, isValidDid } from '@/lib/utils';
+import { isHexKey } from '@/lib/crypto';
+import {
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_DISCLOSED_PLAINTEXT_LENGTH,
+  verifyDisclosure,
+  toReportView,
+  listMyReports,
+  type ReportReason,
+} from '@/lib/reports';
+
+/**
+ * GET /api/reports - Reports I filed
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const result = await listMyReports(identity.id);
+    return jsonResponse({ reports: result.map((report) => toReportView(report, false)) });
+  } catch (error) {
+    console.error('Failed to list reports:', error);
+    return errorResponse('Failed to list reports', 500);
+  }
+}
+
+/**
+ * POST /api/reports - Report a message or a DID
+ * Body: { messageId } or { did }, plus { reason, details? }
+ * Message reports may add disclosure: { plaintext, frankingKey } - the
+ * decrypted message and its franking key, checked against the commitment
+ * the message was sent with (see lib/reports)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const body = await request.json();
+    const { messageId, did, reason, details, disclosure } = body;
+
+    if (Boolean(messageId) === Boolean(did)) {
+      return errorResponse('Provide either messageId or did');
+    }
+
+    if (!REPORT_REASONS.includes(reason as ReportReason)) {
+      return errorResponse(`reason must be one of: ${REPORT_REASONS.join(', ')}`);
+    }
+
+    if (details !== undefined && (typeof details !== 'string' || details.length > MAX_REPORT_DETAILS_LENGTH)) {
+      return errorResponse(`details must be a string of at most ${MAX_REPORT_DETAILS_LENGTH} characters`);
+    }
+
+    if (disclosure !== undefined) {
+      if (!messageId) {
+        return errorResponse('disclosure is only accepted for message reports');
+      }
+      if (
+        !disclosure || typeof disclosure !== 'object' ||
+        typeof disclosure.plaintext !== 'string' ||
+        disclosure.plaintext.length > MAX_DISCLOSED_PLAINTEXT_LENGTH ||
+        !isHexKey(disclosure.frankingKey)
+      ) {
+        return errorResponse('disclosure needs plaintext and a hex frankingKey');
+      }
+    }
+
+    let target: { reportedDid: string; conversationId: string | null; verified: boolean };
+
+    if (messageId) {
+      const message = typeof messageId === 'string'
+        ? await db.query.messages.findFirst({ where: eq(messages.id, messageId) })
+        : undefined;
+
+      // Only participants can report what was said in a conversation
+      const participant = message && await db.query.participants.findFirst({
+        where: and(
+          eq(participants.conversationId, message.conversationId),
+          eq(participants.did, identity.id)
+        ),
+      });
+
+      if (!message || !participant) {
+        return errorResponse('Message not found', 404);
+      }
+
+      if (message.fromDid === identity.id) {
+        return errorResponse('Cannot report your own message');
+      }
+
+      const verified = disclosure !== undefined &&
+        await verifyDisclosure(message, disclosure.plaintext, disclosure.frankingKey);
+      if (disclosure !== undefined && !verified) {
+        return errorResponse('Disclosure does not match the message commitment');
+      }
+
+      target = { reportedDid: message.fromDid, conversationId: message.conversationId, verified };
+    } else {
+      if (!isValidDid(did)) {
+        return errorResponse('Invalid DID');
+      }
+      if (did === identity.id) {
+        return errorResponse('Cannot report yourself');
+      }
+      target = { reportedDid: did, conversationId: null, verified: false };
+    }
+
+    const [report] = await db
+      .insert(reports)
+      .values({
+        id: generateId('rep'),
+        reporterDid: identity.id,
+        reportedDid: target.reportedDid,
+        conversationId: target.conversationId,
+        messageId: messageId || null,
+        reason,
+        details: details || null,
+        disclosedPlaintext: disclosure?.plaintext ?? null,
+        frankingKey: disclosure?.frankingKey.toLowerCase() ?? null,
+        verified: target.verified,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!report) {
+      return errorResponse('You already reported this message', 409);
+    }
+
+    return jsonResponse({ report: toReportView(report, false) }, 201);
+  } catch (error) {
+    console.error('Failed to create report:', error);
+    return errorResponse('Failed to create report', 500);
+  }
+}
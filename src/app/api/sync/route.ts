@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { decodeCursor, getChangesSince, getHeadCursor } from '@/lib/changes';
+
+/**
+ * GET /api/sync?since=<cursor> - Changes across all your conversations since a cursor
+ * Without `since`, returns the current head cursor to start syncing from.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+  const url = new URL(request.url);
+  const since = url.searchParams.get('since');
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '200'), 1000);
+
+  if (!Number.isFinite(limit) || limit < 1) {
+    return errorResponse('limit must be a positive number');
+  }
+
+  try {
+    if (!since) {
+      return jsonResponse({ changes: [], cursor: await getHeadCursor(), hasMore: false });
+    }
+
+    const position = decodeCursor(since);
+    if (position === null) {
+      return errorResponse('Invalid cursor');
+    }
+
+    const result = await getChangesSince(identity.id, position, limit);
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Failed to sync:', error);
+    return errorResponse('Failed to sync', 500);
+  }
+}
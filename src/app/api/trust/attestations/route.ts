@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { eq, or, asc } from 'drizzle-orm';
+import { db, trustAttestations } from '@/db';
+import { requireAuth } from '@/lib/auth';
+import { jsonResponse, errorResponse } from '@/lib/utils';
+import { toAttestationView } from '@/lib/trust';
+
+/**
+ * GET /api/trust/attestations - Export trust attestations I issued or received
+ * Each is signed by its issuer (verifyTrustAttestation), ready for the
+ * connections service. Revoked ones are included with revokedAt so consumers
+ * can drop them.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth(request);
+  if ('error' in authResult) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  const { identity } = authResult;
+
+  try {
+    const rows = await db.query.trustAttestations.findMany({
+      where: or(
+        eq(trustAttestations.issuerDid, identity.id),
+        eq(trustAttestations.subjectDid, identity.id)
+      ),
+      orderBy: [asc(trustAttestations.createdAt)],
+    });
+
+    return jsonResponse({
+      issued: rows.filter((r) => r.issuerDid === identity.id).map(toAttestationView),
+      received: rows.filter((r) => r.subjectDid === identity.id).map(toAttestationView),
+    });
+  } catch (error) {
+    console.error('Failed to export attestations:', error);
+    return errorResponse('Failed to export attestations', 500);
+  }
+}
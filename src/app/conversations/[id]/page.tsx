@@ -73,10 +73,18 @@ function formatDateDivider(date: Date): string {
   return date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
 }
 
+function formatTypingText(senders: string[]): string {
+  if (senders.length === 1) return `${senders[0]} is typing…`;
+  if (senders.length === 2) return `${senders[0]} and ${senders[1]} are typing…`;
+  return 'Several people are typing…';
+}
+
 export default function MessageThreadPage() {
   const params = useParams<{ id: string }>();
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState(mockMessages);
+  // Senders currently typing - fed by `typing` events from /ws
+  const [typingSenders] = useState<string[]>([]);
   
   const handleSend = () => {
     if (!message.trim()) return;
@@ -169,6 +177,11 @@ export default function MessageThreadPage() {
         })}
       </div>
       
+      {/* Typing indicator */}
+      <p className="h-5 text-xs text-gray-500 italic ml-3" aria-live="polite">
+        {typingSenders.length > 0 && formatTypingText(typingSenders)}
+      </p>
+      
       {/* Input */}
       <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
         <div className="flex items-end gap-2">
@@ -17,7 +17,7 @@ const mockConversations = [
       text: 'Let\'s finalize the venue decision by Friday',
       timestamp: new Date('2026-02-20T10:30:00'),
     },
-    unread: 2,
+    unreadCount: 2,
   },
   {
     id: 'conv_2',
@@ -29,7 +29,7 @@ const mockConversations = [
       text: 'Sounds good! See you tonight 💕',
       timestamp: new Date('2026-02-20T09:15:00'),
     },
-    unread: 0,
+    unreadCount: 0,
   },
   {
     id: 'conv_3',
@@ -41,7 +41,7 @@ const mockConversations = [
       text: 'Deployed the nav bar to all services',
       timestamp: new Date('2026-02-20T14:10:00'),
     },
-    unread: 0,
+    unreadCount: 0,
   },
 ];
 
@@ -103,7 +103,7 @@ export default function ConversationsPage() {
                 {/* Content */}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between">
-                    <span className={`font-medium truncate ${conv.unread > 0 ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                    <span className={`font-medium truncate ${conv.unreadCount > 0 ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
                       {getDisplayName(conv)}
                     </span>
                     <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
@@ -111,15 +111,15 @@ export default function ConversationsPage() {
                     </span>
                   </div>
                   <div className="flex items-center gap-2 mt-1">
-                    <p className={`text-sm truncate ${conv.unread > 0 ? 'text-gray-900 dark:text-gray-200 font-medium' : 'text-gray-500'}`}>
+                    <p className={`text-sm truncate ${conv.unreadCount > 0 ? 'text-gray-900 dark:text-gray-200 font-medium' : 'text-gray-500'}`}>
                       {conv.isGroup && (
                         <span className="text-gray-400">{conv.lastMessage.sender}: </span>
                       )}
                       {conv.lastMessage.text}
                     </p>
-                    {conv.unread > 0 && (
+                    {conv.unreadCount > 0 && (
                       <span className="flex-shrink-0 w-5 h-5 bg-orange-500 text-white text-xs rounded-full flex items-center justify-center font-medium">
-                        {conv.unread}
+                        {conv.unreadCount}
                       </span>
                     )}
                   </div>
@@ -1,4 +1,5 @@
-import { pgTable, text, timestamp, jsonb, boolean, index, primaryKey } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, text, timestamp, jsonb, boolean, integer, bigint, bigserial, index, uniqueIndex, primaryKey } from 'drizzle-orm/pg-core';
 
 /**
  * Conversations - both direct messages and groups
@@ -15,7 +16,13 @@ export const conversations = pgTable('conversations', {
   
   // Visibility & access
   visibility: text('visibility').notNull().default('private'),  // 'private' | 'trust-bound'
-  trustRadius: text('trust_radius'),                            // For trust-bound: max hops
+  trustRadius: integer('trust_radius'),                         // For trust-bound: max hops
+  
+  // Direct messages from someone the recipient isn't connected to
+  requestStatus: text('request_status'),                        // null (accepted / not a request) | 'pending' | 'declined'
+  
+  // Group encryption
+  keyEpoch: integer('key_epoch').notNull().default(0),          // Sender key generation; bumped when a member leaves or is removed
   
   // Ownership
   createdBy: text('created_by').notNull(),                      // DID of creator
@@ -60,6 +67,7 @@ export const messages = pgTable('messages', {
   id: text('id').primaryKey(),                                  // msg_xxx
   conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'cascade' }).notNull(),
   fromDid: text('from_did').notNull(),
+  clientMessageId: text('client_message_id'),                   // Sender-generated ID for idempotent retries
   
   // Content (E2EE)
   content: jsonb('content').notNull(),                          // { encrypted, nonce } or { type: 'system', text }
@@ -68,6 +76,10 @@ export const messages = pgTable('messages', {
   // Threading
   replyTo: text('reply_to'),                                    // Message ID
   
+  // Franking commitment of the current version (content.commitment) - kept
+  // after deletion so abuse reports can still be verified, see src/lib/reports.ts
+  commitment: text('commitment'),
+  
   // Status
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   editedAt: timestamp('edited_at', { withTimezone: true }),
@@ -75,7 +87,67 @@ export const messages = pgTable('messages', {
 }, (table) => ({
   conversationIdx: index('idx_messages_conversation').on(table.conversationId),
   createdIdx: index('idx_messages_created').on(table.createdAt),
+  keysetIdx: index('idx_messages_conversation_keyset').on(table.conversationId, table.createdAt, table.id),
   fromDidIdx: index('idx_messages_from').on(table.fromDid),
+  clientMessageIdx: uniqueIndex('idx_messages_client_id').on(table.conversationId, table.fromDid, table.clientMessageId),
+}));
+
+/**
+ * Message edit history - previous (still encrypted) content of edited messages
+ */
+export const messageEdits = pgTable('message_edits', {
+  id: text('id').primaryKey(),                                  // edit_xxx
+  messageId: text('message_id').references(() => messages.id, { onDelete: 'cascade' }).notNull(),
+  content: jsonb('content').notNull(),                          // Content before this edit
+  editedAt: timestamp('edited_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  messageIdx: index('idx_message_edits_message').on(table.messageId),
+}));
+
+/**
+ * Attachments - encrypted files, stored in chunks in the blob store
+ * See src/lib/attachments.ts.
+ */
+export const attachments = pgTable('attachments', {
+  id: text('id').primaryKey(),                                  // att_xxx
+  // Set null when the conversation or message goes away, so GC can find the blob
+  conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  messageId: text('message_id').references(() => messages.id, { onDelete: 'set null' }),
+  uploaderDid: text('uploader_did').notNull(),
+  
+  // Ciphertext, as declared by the uploader and checked on completion
+  size: integer('size').notNull(),
+  sha256: text('sha256').notNull(),                             // hex
+  mimeType: text('mime_type').notNull(),
+  
+  // Upload
+  chunkSize: integer('chunk_size').notNull(),
+  uploadedChunks: integer('uploaded_chunks').notNull().default(0),
+  status: text('status').notNull().default('uploading'),        // 'uploading' | 'complete'
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => ({
+  conversationIdx: index('idx_attachments_conversation').on(table.conversationId),
+  messageIdx: index('idx_attachments_message').on(table.messageId),
+}));
+
+/**
+ * Trust attestations - signed "I extend trust to this member" statements
+ * Exported for the connections service; see src/lib/trust.ts.
+ */
+export const trustAttestations = pgTable('trust_attestations', {
+  id: text('id').primaryKey(),                                  // ta_xxx
+  conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'cascade' }).notNull(),
+  issuerDid: text('issuer_did').notNull(),                      // Extended trust
+  subjectDid: text('subject_did').notNull(),                    // Was trusted
+  issuedAt: text('issued_at').notNull(),                        // ISO 8601, exactly as signed
+  signature: text('signature').notNull(),                       // Ed25519 by the issuer's DID key, hex
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  pairIdx: uniqueIndex('idx_trust_attestations_pair').on(table.conversationId, table.issuerDid, table.subjectDid),
+  issuerIdx: index('idx_trust_attestations_issuer').on(table.issuerDid),
+  subjectIdx: index('idx_trust_attestations_subject').on(table.subjectDid),
 }));
 
 /**
@@ -103,27 +175,134 @@ export const invites = pgTable('invites', {
 }));
 
 /**
- * Public keys for E2EE
+ * Devices - each of a DID's clients has its own keys
+ * The first device is active right away; later ones wait for an active device
+ * to approve them with the link code they display, or recover the DID once
+ * none is left.
+ */
+export const devices = pgTable('devices', {
+  id: text('id').primaryKey(),                                  // dev_xxx
+  did: text('did').notNull(),
+  name: text('name'),                                           // "Laptop", "Phone"
+  status: text('status').notNull().default('pending'),          // 'pending' | 'active' | 'revoked'
+  linkCode: text('link_code'),                                  // Shown on a pending device until approved
+  linkedBy: text('linked_by'),                                  // Device that approved this one
+  linkPayload: jsonb('link_payload'),                           // Encrypted hand-off from the approving device
+  isFirst: boolean('is_first').notNull().default(false),        // Active without approval; one per DID, ever
+  recovered: boolean('recovered').notNull().default(false),     // Activated after every device was lost; its keys replace the DID's
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  approvedAt: timestamp('approved_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => ({
+  didIdx: index('idx_devices_did').on(table.did),
+  firstIdx: uniqueIndex('idx_devices_first').on(table.did).where(sql`${table.isFirst}`),
+}));
+
+/**
+ * Public keys for E2EE - one bundle per device
  */
 export const publicKeys = pgTable('public_keys', {
-  did: text('did').primaryKey(),
+  deviceId: text('device_id').references(() => devices.id, { onDelete: 'cascade' }).primaryKey(),
+  did: text('did').notNull(),
   identityKey: text('identity_key').notNull(),                  // Long-term X25519 public key
   signedPreKey: text('signed_pre_key').notNull(),               // Signed pre-key
   signature: text('signature').notNull(),                       // Signature of signed pre-key
+  preKeysLow: boolean('pre_keys_low').notNull().default(false), // Owner was warned about running out of pre-keys
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
-});
+}, (table) => ({
+  didIdx: index('idx_public_keys_did').on(table.did),
+}));
 
 /**
  * One-time pre-keys for forward secrecy
+ * A key is deleted as it is claimed, so every row here is unused.
  */
 export const preKeys = pgTable('pre_keys', {
-  id: text('id').primaryKey(),
-  did: text('did').references(() => publicKeys.did, { onDelete: 'cascade' }).notNull(),
+  id: text('id').primaryKey(),                                  // pk_xxx
+  did: text('did').notNull(),
+  deviceId: text('device_id').references(() => publicKeys.deviceId, { onDelete: 'cascade' }).notNull(),
   key: text('key').notNull(),
-  used: boolean('used').default(false),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
   didIdx: index('idx_pre_keys_did').on(table.did),
+  deviceIdx: index('idx_pre_keys_device').on(table.deviceId),
+}));
+
+/**
+ * Key transparency log - every published bundle, append-only
+ * `position` is the leaf index in the Merkle tree (see src/lib/transparency.ts).
+ */
+export const keyLog = pgTable('key_log', {
+  position: integer('position').primaryKey(),                   // 0, 1, 2, ... without gaps
+  did: text('did').notNull(),
+  deviceId: text('device_id').notNull(),
+  identityKey: text('identity_key').notNull(),
+  signedPreKey: text('signed_pre_key').notNull(),
+  signature: text('signature').notNull(),
+  leafHash: text('leaf_hash').notNull(),                        // SHA-256(0x00 || serialized entry), hex
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  didIdx: index('idx_key_log_did').on(table.did),
+  deviceIdx: index('idx_key_log_device').on(table.deviceId),
+}));
+
+/**
+ * Key log subtree hashes - each complete subtree of the Merkle tree, stored
+ * as the log grows so roots and proofs don't rehash every leaf
+ */
+export const keyLogNodes = pgTable('key_log_nodes', {
+  level: integer('level').notNull(),                            // Covers 2^level leaves (level >= 1; leaves are in key_log)
+  index: integer('index').notNull(),                            // Starting at leaf index * 2^level
+  hash: text('hash').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.level, table.index] }),
+}));
+
+/**
+ * Identity key changes - a new identity key is never swapped in silently
+ */
+export const keyChanges = pgTable('key_changes', {
+  id: text('id').primaryKey(),                                  // kc_xxx
+  did: text('did').notNull(),
+  deviceId: text('device_id'),                                  // Null for changes before multi-device
+  previousIdentityKey: text('previous_identity_key').notNull(),
+  identityKey: text('identity_key').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  didIdx: index('idx_key_changes_did').on(table.did),
+}));
+
+/**
+ * Key verifications - "I compared safety numbers with this contact"
+ * Only valid while the stored number matches the current one; removed when
+ * either side's identity key changes.
+ */
+export const keyVerifications = pgTable('key_verifications', {
+  did: text('did').notNull(),                                   // Who verified
+  contactDid: text('contact_did').notNull(),                    // Whose keys
+  safetyNumber: text('safety_number').notNull(),                // Number that was compared
+  verifiedAt: timestamp('verified_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.contactDid] }),
+  contactIdx: index('idx_key_verifications_contact').on(table.contactDid),
+}));
+
+/**
+ * Sender key distribution messages - relayed pairwise between group members
+ * Content is encrypted to the recipient; the server only routes it.
+ */
+export const senderKeyDistributions = pgTable('sender_key_distributions', {
+  id: text('id').primaryKey(),                                  // skd_xxx
+  conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'cascade' }).notNull(),
+  fromDid: text('from_did').notNull(),
+  fromDeviceId: text('from_device_id'),                         // Each device has its own chain (null before multi-device)
+  toDid: text('to_did').notNull(),
+  keyEpoch: integer('key_epoch').notNull(),                     // conversations.keyEpoch it was sent for
+  content: jsonb('content').notNull(),                          // Pairwise-encrypted SenderKeyDistribution
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  pairIdx: uniqueIndex('idx_sender_key_distributions_pair').on(table.conversationId, table.keyEpoch, table.fromDid, table.fromDeviceId, table.toDid),
+  recipientIdx: index('idx_sender_key_distributions_recipient').on(table.conversationId, table.toDid),
 }));
 
 /**
@@ -138,10 +317,116 @@ export const readReceipts = pgTable('read_receipts', {
   pk: primaryKey({ columns: [table.conversationId, table.did] }),
 }));
 
+/**
+ * Presence - last-seen tracking and privacy per DID
+ */
+export const presence = pgTable('presence', {
+  did: text('did').primaryKey(),
+  visibility: text('visibility').notNull().default('shared'),   // 'everyone' | 'shared' | 'nobody'
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }),
+  onlineUntil: timestamp('online_until', { withTimezone: true }), // Latest of the DID's presence leases
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+/**
+ * Presence leases - one per instance holding sockets for a DID
+ */
+export const presenceLeases = pgTable('presence_leases', {
+  did: text('did').notNull(),
+  instanceId: text('instance_id').notNull(),                    // Process holding the sockets
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(), // Refreshed while a socket is connected
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.instanceId] }),
+}));
+
+/**
+ * Blocks - "I don't want to hear from this DID"
+ */
+export const blocks = pgTable('blocks', {
+  did: text('did').notNull(),                                   // Who blocked
+  blockedDid: text('blocked_did').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.blockedDid] }),
+  blockedIdx: index('idx_blocks_blocked').on(table.blockedDid),
+}));
+
+/**
+ * Reports - abuse reports about a message or a DID, queued for moderators
+ * See src/lib/reports.ts. No FKs: reports must outlive what they are about.
+ */
+export const reports = pgTable('reports', {
+  id: text('id').primaryKey(),                                  // rep_xxx
+  reporterDid: text('reporter_did').notNull(),
+  reportedDid: text('reported_did').notNull(),                  // The DID, or the message's sender
+  conversationId: text('conversation_id'),                      // Set for message reports
+  messageId: text('message_id'),
+  reason: text('reason').notNull(),                             // 'spam' | 'harassment' | 'impersonation' | 'illegal' | 'other'
+  details: text('details'),
+  
+  // Consent-based disclosure: plaintext the reporter chose to reveal
+  disclosedPlaintext: text('disclosed_plaintext'),
+  frankingKey: text('franking_key'),
+  verified: boolean('verified').notNull().default(false),      // Disclosure opens the message's commitment
+  
+  // Moderation
+  status: text('status').notNull().default('open'),             // 'open' | 'reviewing' | 'actioned' | 'dismissed'
+  resolution: text('resolution'),                               // Moderator note
+  reviewedBy: text('reviewed_by'),                              // Last moderator to change the status
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  queueIdx: index('idx_reports_queue').on(table.status, table.createdAt),
+  reporterIdx: index('idx_reports_reporter').on(table.reporterDid),
+  reportedIdx: index('idx_reports_reported').on(table.reportedDid),
+  uniqueMessageReport: uniqueIndex('idx_reports_reporter_message').on(table.reporterDid, table.messageId),
+}));
+
+/**
+ * Change log - durable feed behind GET /api/sync, ordered by (tx_id, seq)
+ * No FK on conversation_id: entries must outlive deleted conversations.
+ */
+export const changeLog = pgTable('change_log', {
+  seq: bigserial('seq', { mode: 'number' }).primaryKey(),       // Assigned before commit, so not commit-ordered
+  txId: bigint('tx_id', { mode: 'number' })                     // Writing transaction (see src/lib/changes.ts)
+    .notNull()
+    .default(sql`pg_current_xact_id()::text::bigint`),
+  conversationId: text('conversation_id'),                      // Visible to current participants
+  did: text('did'),                                             // Or addressed to a single DID
+  type: text('type').notNull(),                                 // Realtime event type
+  payload: jsonb('payload').notNull(),                          // Event (message events keep only the ID)
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  conversationIdx: index('idx_change_log_conversation').on(table.conversationId, table.seq),
+  didIdx: index('idx_change_log_did').on(table.did, table.seq),
+  txIdx: index('idx_change_log_tx').on(table.txId, table.seq),
+}));
+
+/**
+ * Rate limits - fixed-window attempt counters shared by all instances
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey(),                                // What is limited and for whom, e.g. "pre-key-claims:<did>"
+  windowStart: timestamp('window_start', { withTimezone: true }).notNull(),
+  count: integer('count').notNull().default(0),                 // Attempts in the current window
+});
+
 // Types
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 export type Participant = typeof participants.$inferSelect;
 export type Message = typeof messages.$inferSelect;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
 export type Invite = typeof invites.$inferSelect;
+export type TrustAttestationRow = typeof trustAttestations.$inferSelect;
+export type Device = typeof devices.$inferSelect;
 export type PublicKey = typeof publicKeys.$inferSelect;
+export type KeyChange = typeof keyChanges.$inferSelect;
+export type KeyLogEntry = typeof keyLog.$inferSelect;
+export type KeyVerification = typeof keyVerifications.$inferSelect;
+export type Presence = typeof presence.$inferSelect;
+export type Block = typeof blocks.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type Change = typeof changeLog.$inferSelect;
+
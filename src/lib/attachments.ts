@@ -0,0 +1,384 @@
+/**
+ * Encrypted attachments
+ *
+ * Clients encrypt a file with a random key, upload the ciphertext in chunks
+ * (one blob per chunk, see ./blobstore.ts) and reference it from a message:
+ * content.attachments = [{ id, sha256, size, mimeType }]. The key travels
+ * inside the encrypted message, so the server only ever holds ciphertext.
+ *
+ * An attachment belongs to one conversation and, once sent, one message.
+ * Downloads are limited to current participants. Uploads that are never
+ * sent, and attachments of deleted messages or conversations, are removed by
+ * collectOrphanedAttachments.
+ */
+
+import { eq, and, or, lt, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { sha256 } from '@noble/hashes/sha256';
+import { concatBytes } from '@noble/hashes/utils';
+import { db, attachments, messages, type Attachment } from '@/db';
+import { getBlobStore } from './blobstore';
+import { isHexKey, keyToHex } from './crypto';
+
+export const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+export const ATTACHMENT_CHUNK_SIZE = 4 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const MAX_MIME_TYPE_LENGTH = 255;
+
+/** Bytes a DID can have in uploads it hasn't sent yet */
+export const MAX_UNSENT_UPLOAD_BYTES = 2 * MAX_ATTACHMENT_SIZE;
+
+/** Advisory lock namespace for starting uploads, one lock per uploader */
+const UPLOAD_LOCK = 0x61747421; // 'att!'
+
+/** Unsent uploads are deleted this long after they started */
+export const ATTACHMENT_ORPHAN_TTL_MS = 24 * 60 * 60 * 1000;
+export const ATTACHMENT_GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface AttachmentRef {
+  id: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+function chunkKey(attachmentId: string, index: number): string {
+  return `attachments/${attachmentId}/${index}`;
+}
+
+export function chunkCount(attachment: Pick<Attachment, 'size' | 'chunkSize'>): number {
+  return Math.ceil(attachment.size / attachment.chunkSize);
+}
+
+/**
+ * Byte length chunk `index` must have - every chunk is full except the last
+ */
+export function expectedChunkLength(attachment: Attachment, index: number): number {
+  return Math.min(attachment.chunkSize, attachment.size - index * attachment.chunkSize);
+}
+
+/**
+ * Validate a new upload's declared metadata
+ */
+export function validateAttachmentMetadata(
+  body: Record<string, unknown>
+): { error: string; status: number } | null {
+  const { size, sha256: hash, mimeType } = body;
+
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+    return { error: 'size must be a positive integer', status: 400 };
+  }
+  if (size > MAX_ATTACHMENT_SIZE) {
+    return { error: `Attachments are limited to ${MAX_ATTACHMENT_SIZE} bytes`, status: 413 };
+  }
+  if (!isHexKey(hash)) {
+    return { error: 'sha256 must be the hex SHA-256 of the ciphertext', status: 400 };
+  }
+  if (typeof mimeType !== 'string' || !mimeType || mimeType.length > MAX_MIME_TYPE_LENGTH) {
+    return { error: 'mimeType is required', status: 400 };
+  }
+  return null;
+}
+
+/**
+ * Start an upload unless the uploader's unsent uploads would then exceed
+ * MAX_UNSENT_UPLOAD_BYTES; null if they would. Unsent means not attached to a
+ * message, so attachments of deleted messages count until they're collected.
+ * Starts by one uploader queue on a lock, so concurrent ones can't both take
+ * the last of the quota.
+ */
+export async function startUpload(
+  upload: Pick<Attachment, 'id' | 'conversationId' | 'uploaderDid' | 'size' | 'sha256' | 'mimeType' | 'chunkSize'>
+): Promise<Attachment | null> {
+  const column = (name: keyof typeof upload) => sql.identifier(attachments[name].name);
+
+  await db.batch([
+    db.execute(sql`select pg_advisory_xact_lock(${UPLOAD_LOCK}, hashtext(${upload.uploaderDid}))`),
+    db.execute(sql`
+      insert into ${attachments} (${column('id')}, ${column('conversationId')}, ${column('uploaderDid')}, ${column('size')}, ${column('sha256')}, ${column('mimeType')}, ${column('chunkSize')})
+      select ${upload.id}, ${upload.conversationId}, ${upload.uploaderDid}, ${upload.size}, ${upload.sha256}, ${upload.mimeType}, ${upload.chunkSize}
+      where (
+        select coalesce(sum(${attachments.size}), 0) from ${attachments}
+        where ${attachments.uploaderDid} = ${upload.uploaderDid} and ${attachments.messageId} is null
+      ) + ${upload.size} <= ${MAX_UNSENT_UPLOAD_BYTES}
+    `),
+  ]);
+
+  const started = await db.query.attachments.findFirst({
+    where: eq(attachments.id, upload.id),
+  });
+  return started ?? null;
+}
+
+/**
+ * Read a chunk upload's body, or null as soon as it's longer than
+ * `maxLength` - without buffering the rest, whatever Content-Length said
+ */
+export async function readChunkBody(
+  body: ReadableStream<Uint8Array> | null,
+  maxLength: number
+): Promise<Uint8Array | null> {
+  if (!body) return new Uint8Array();
+
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return concatBytes(...parts);
+
+    length += value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+}
+
+/**
+ * Public view of an attachment row
+ */
+export function toAttachmentView(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    conversationId: attachment.conversationId,
+    messageId: attachment.messageId,
+    uploaderDid: attachment.uploaderDid,
+    size: attachment.size,
+    sha256: attachment.sha256,
+    mimeType: attachment.mimeType,
+    chunkSize: attachment.chunkSize,
+    chunkCount: chunkCount(attachment),
+    uploadedChunks: attachment.uploadedChunks,
+    status: attachment.status,
+    createdAt: attachment.createdAt,
+    completedAt: attachment.completedAt,
+  };
+}
+
+/**
+ * Store chunk `index`. Chunks are uploaded in order, so an interrupted upload
+ * resumes at `uploadedChunks`; re-sending an already stored chunk is a no-op.
+ */
+export async function storeChunk(
+  attachment: Attachment,
+  index: number,
+  data: Uint8Array
+): Promise<{ uploadedChunks: number } | { error: string; status: number }> {
+  if (index < attachment.uploadedChunks) {
+    return { uploadedChunks: attachment.uploadedChunks };
+  }
+  if (index > attachment.uploadedChunks) {
+    return { error: `Expected chunk ${attachment.uploadedChunks}`, status: 409 };
+  }
+  if (data.length !== expectedChunkLength(attachment, index)) {
+    return { error: `Chunk ${index} must be ${expectedChunkLength(attachment, index)} bytes`, status: 400 };
+  }
+
+  await getBlobStore().put(chunkKey(attachment.id, index), data);
+
+  const [updated] = await db
+    .update(attachments)
+    .set({ uploadedChunks: index + 1 })
+    .where(and(eq(attachments.id, attachment.id), eq(attachments.uploadedChunks, index)))
+    .returning({ uploadedChunks: attachments.uploadedChunks });
+
+  // A concurrent retry of the same chunk got there first - same bytes, same result
+  return { uploadedChunks: updated?.uploadedChunks ?? index + 1 };
+}
+
+/**
+ * Whether the stored chunks hash to the declared sha256
+ */
+export async function verifyUpload(attachment: Attachment): Promise<boolean> {
+  const hash = sha256.create();
+  const store = getBlobStore();
+
+  for (let index = 0; index < chunkCount(attachment); index++) {
+    const chunk = await store.get(chunkKey(attachment.id, index));
+    if (!chunk) return false;
+    hash.update(chunk);
+  }
+
+  return keyToHex(hash.digest()) === attachment.sha256.toLowerCase();
+}
+
+/**
+ * Ciphertext as a stream, one chunk in memory at a time
+ */
+export function readAttachment(attachment: Attachment): ReadableStream<Uint8Array> {
+  const store = getBlobStore();
+  const total = chunkCount(attachment);
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= total) {
+        controller.close();
+        return;
+      }
+      const chunk = await store.get(chunkKey(attachment.id, index++));
+      if (!chunk) {
+        controller.error(new Error(`Missing chunk ${index - 1} of ${attachment.id}`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Delete an attachment's blobs (not its row)
+ */
+export async function deleteAttachmentBlobs(attachment: Attachment): Promise<void> {
+  const store = getBlobStore();
+  for (let index = 0; index < chunkCount(attachment); index++) {
+    await store.delete(chunkKey(attachment.id, index));
+  }
+}
+
+/**
+ * Parse content.attachments; `refs` is empty when the message has none
+ */
+export function parseAttachmentRefs(
+  content: Record<string, unknown>
+): { refs: AttachmentRef[] } | { error: string } {
+  const value = content.attachments;
+  if (value === undefined) return { refs: [] };
+
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'attachments must be a non-empty array' };
+  }
+  if (value.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return { error: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message` };
+  }
+
+  const refs: AttachmentRef[] = [];
+  for (const ref of value) {
+    if (
+      !ref || typeof ref !== 'object' ||
+      typeof ref.id !== 'string' ||
+      validateAttachmentMetadata(ref) !== null
+    ) {
+      return { error: 'Each attachment needs id, sha256, size and mimeType' };
+    }
+    if (refs.some((r) => r.id === ref.id)) {
+      return { error: `Duplicate attachment ${ref.id}` };
+    }
+    refs.push({ id: ref.id, sha256: ref.sha256, size: ref.size, mimeType: ref.mimeType });
+  }
+
+  return { refs };
+}
+
+/**
+ * Attach uploaded attachments to a newly stored message (the row must exist:
+ * attachments.message_id references it). Each must be complete, uploaded by
+ * the sender to this conversation, not sent before, and match its reference.
+ * Nothing is claimed unless all of them are.
+ */
+export async function claimAttachments(
+  refs: AttachmentRef[],
+  conversationId: string,
+  senderDid: string,
+  messageId: string
+): Promise<{ error: string; status: number } | null> {
+  if (refs.length === 0) return null;
+
+  const rows = await db.query.attachments.findMany({
+    where: inArray(attachments.id, refs.map((ref) => ref.id)),
+  });
+
+  for (const ref of refs) {
+    const row = rows.find((r) => r.id === ref.id);
+    if (!row || row.conversationId !== conversationId || row.uploaderDid !== senderDid) {
+      return { error: `Attachment not found: ${ref.id}`, status: 404 };
+    }
+    if (row.status !== 'complete') {
+      return { error: `Attachment upload not complete: ${ref.id}`, status: 409 };
+    }
+    if (row.messageId) {
+      return { error: `Attachment already sent: ${ref.id}`, status: 409 };
+    }
+    if (row.sha256 !== ref.sha256.toLowerCase() || row.size !== ref.size || row.mimeType !== ref.mimeType) {
+      return { error: `Attachment does not match its upload: ${ref.id}`, status: 400 };
+    }
+  }
+
+  const claimed = await db
+    .update(attachments)
+    .set({ messageId })
+    .where(
+      and(
+        inArray(attachments.id, refs.map((ref) => ref.id)),
+        isNull(attachments.messageId)
+      )
+    )
+    .returning({ id: attachments.id });
+
+  // Another message took one of them in the meantime
+  if (claimed.length !== refs.length) {
+    await releaseAttachments(messageId);
+    return { error: 'Attachment already sent', status: 409 };
+  }
+
+  return null;
+}
+
+/**
+ * Undo a partial claim
+ */
+async function releaseAttachments(messageId: string): Promise<void> {
+  await db
+    .update(attachments)
+    .set({ messageId: null })
+    .where(eq(attachments.messageId, messageId));
+}
+
+/**
+ * Delete attachments nobody can download any more: their conversation is
+ * gone, their message was deleted, or they were never sent within
+ * ATTACHMENT_ORPHAN_TTL_MS. Safe to run on every instance at once - rows are
+ * deleted before their blobs, so each is collected once.
+ */
+export async function collectOrphanedAttachments(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - ATTACHMENT_ORPHAN_TTL_MS);
+
+  const deletedMessages = db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(isNotNull(messages.deletedAt));
+
+  const orphans = await db
+    .delete(attachments)
+    .where(
+      or(
+        isNull(attachments.conversationId),
+        and(isNull(attachments.messageId), lt(attachments.createdAt, cutoff)),
+        inArray(attachments.messageId, deletedMessages)
+      )
+    )
+    .returning();
+
+  for (const attachment of orphans) {
+    await deleteAttachmentBlobs(attachment);
+  }
+
+  return orphans.length;
+}
+
+/**
+ * Periodically collect orphaned attachments
+ */
+export function startAttachmentCollector(): () => void {
+  const timer = setInterval(async () => {
+    try {
+      await collectOrphanedAttachments();
+    } catch (error) {
+      console.error('Failed to collect attachments:', error);
+    }
+  }, ATTACHMENT_GC_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
@@ -27,8 +27,13 @@ export async function requireAuth(request: NextRequest): Promise<AuthResult | Au
     return { error: 'Missing or invalid Authorization header', status: 401 };
   }
   
-  const token = authHeader.slice(7);
-  
+  return verifyToken(authHeader.slice(7));
+}
+
+/**
+ * Verify a raw bearer token with auth service (shared by HTTP and WebSocket auth)
+ */
+export async function verifyToken(token: string): Promise<AuthResult | AuthError> {
   try {
     const response = await fetch(`${AUTH_SERVICE_URL}/api/verify`, {
       method: 'POST',
@@ -0,0 +1,222 @@
+/**
+ * Blob storage for attachment ciphertext
+ *
+ * Objects are opaque bytes under server-generated keys. S3-compatible storage
+ * (AWS, R2, MinIO, ...) when S3_BUCKET is set, otherwise files under
+ * BLOB_STORE_DIR (dev and tests).
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { sha256 } from '@noble/hashes/sha256';
+import { hmac } from '@noble/hashes/hmac';
+import { keyToHex } from './crypto';
+
+export interface BlobStore {
+  put(key: string, data: Uint8Array): Promise<void>;
+  /** null if there is no such object */
+  get(key: string): Promise<Uint8Array | null>;
+  /** No-op if there is no such object */
+  delete(key: string): Promise<void>;
+}
+
+const BLOB_KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+function assertValidKey(key: string): void {
+  if (!BLOB_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+/**
+ * Files under `dir`, one per key
+ */
+export function createLocalBlobStore(dir: string): BlobStore {
+  const root = resolve(dir);
+  const pathFor = (key: string) => {
+    assertValidKey(key);
+    return join(root, key);
+  };
+
+  return {
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(pathFor(key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
+
+export interface S3Config {
+  endpoint: string;          // e.g. https://s3.us-east-1.amazonaws.com
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = keyToHex(sha256(new Uint8Array()));
+
+function hmacSha256(key: Uint8Array | string, data: string): Uint8Array {
+  const encoder = new TextEncoder();
+  return hmac(sha256, typeof key === 'string' ? encoder.encode(key) : key, encoder.encode(data));
+}
+
+/**
+ * URI-encode the way SigV4 canonical requests do: everything but A-Z a-z 0-9 - _ . ~
+ */
+function awsUriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * AWS Signature Version 4 for one request. `headers` (lowercase names) are
+ * all signed; returns them with x-amz-date and authorization added.
+ */
+export function signS3Request(
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...headers,
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const names = Object.keys(signed).sort();
+
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([k, v]) => [awsUriEncode(k), awsUriEncode(v)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+  const canonicalPath = url.pathname
+    .split('/')
+    .map((segment) => awsUriEncode(decodeURIComponent(segment)))
+    .join('/');
+
+  const canonicalRequest = [
+    method,
+    canonicalPath,
+    canonicalQuery,
+    names.map((name) => `${name}:${signed[name].trim()}\n`).join(''),
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    keyToHex(sha256(new TextEncoder().encode(canonicalRequest))),
+  ].join('\n');
+
+  let signingKey = hmacSha256(`AWS4${config.secretAccessKey}`, date);
+  for (const part of [config.region, 's3', 'aws4_request']) {
+    signingKey = hmacSha256(signingKey, part);
+  }
+
+  const signature = keyToHex(hmacSha256(signingKey, stringToSign));
+
+  // fetch sets Host itself
+  return {
+    ...headers,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * S3-compatible object storage, path-style addressing
+ */
+export function createS3BlobStore(config: S3Config): BlobStore {
+  const base = config.endpoint.replace(/\/+$/, '');
+
+  async function send(method: string, key: string, body?: Uint8Array): Promise<Response> {
+    assertValidKey(key);
+    const url = new URL(`${base}/${config.bucket}/${key}`);
+    const payloadHash = body ? keyToHex(sha256(body)) : EMPTY_PAYLOAD_HASH;
+    const headers = signS3Request(
+      config,
+      method,
+      url,
+      body ? { 'content-type': 'application/octet-stream' } : {},
+      payloadHash
+    );
+    // fetch only takes ArrayBuffer-backed views
+    return fetch(url, { method, headers, body: body && new Uint8Array(body) });
+  }
+
+  return {
+    async put(key, data) {
+      const response = await send('PUT', key, data);
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${key} failed: ${response.status}`);
+      }
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 GET ${key} failed: ${response.status}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed: ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Pick the store from configuration
+ */
+export function createBlobStore(): BlobStore {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    return createLocalBlobStore(process.env.BLOB_STORE_DIR || '.data/blobs');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  return createS3BlobStore({
+    endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    bucket,
+    region,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  });
+}
+
+let store: BlobStore | null = null;
+
+/**
+ * Shared store for this process
+ */
+export function getBlobStore(): BlobStore {
+  if (!store) store = createBlobStore();
+  return store;
+}
@@ -0,0 +1,91 @@
+/**
+ * Per-user blocking
+ *
+ * A block is one-directional and private: the blocked DID is never told.
+ * Blocking someone stops them from starting direct conversations with me
+ * (their requests are silently declined, see ./requests.ts), adding me to
+ * groups, addressing invites to me, and seeing my presence or typing. Groups
+ * we already share keep working, but their messages are left out of my
+ * message fetches and socket.
+ */
+
+import { eq, and, desc } from 'drizzle-orm';
+import { db, blocks } from '@/db';
+import { publishToUser } from './realtime';
+
+/**
+ * Whether `did` has blocked `otherDid`
+ */
+export async function hasBlocked(did: string, otherDid: string): Promise<boolean> {
+  const row = await db.query.blocks.findFirst({
+    where: and(eq(blocks.did, did), eq(blocks.blockedDid, otherDid)),
+  });
+  return Boolean(row);
+}
+
+/**
+ * DIDs `did` has blocked, as a subquery (for hiding their messages)
+ */
+export function blockedBy(did: string) {
+  return db
+    .select({ did: blocks.blockedDid })
+    .from(blocks)
+    .where(eq(blocks.did, did));
+}
+
+/**
+ * Both directions of `did`'s blocks: who they blocked, and who blocked them
+ */
+export async function getBlockRelations(did: string): Promise<{ blocked: Set<string>; blockedBy: Set<string> }> {
+  const [blocked, blockers] = await Promise.all([
+    db.select({ did: blocks.blockedDid }).from(blocks).where(eq(blocks.did, did)),
+    db.select({ did: blocks.did }).from(blocks).where(eq(blocks.blockedDid, did)),
+  ]);
+  return {
+    blocked: new Set(blocked.map((row) => row.did)),
+    blockedBy: new Set(blockers.map((row) => row.did)),
+  };
+}
+
+/**
+ * My block list, newest first
+ */
+export async function listBlocks(did: string) {
+  return db.query.blocks.findMany({
+    where: eq(blocks.did, did),
+    orderBy: [desc(blocks.createdAt)],
+  });
+}
+
+/**
+ * Tell both sides' sockets to reload their block relations.
+ * 'blocks.changed' is never forwarded to clients, so the blocked DID learns nothing.
+ */
+async function announceBlockChange(did: string, otherDid: string): Promise<void> {
+  await publishToUser(did, { type: 'blocks.changed' });
+  await publishToUser(otherDid, { type: 'blocks.changed' });
+}
+
+/**
+ * Block `blockedDid` for `did` (no-op if already blocked)
+ */
+export async function blockDid(did: string, blockedDid: string): Promise<void> {
+  const [row] = await db
+    .insert(blocks)
+    .values({ did, blockedDid })
+    .onConflictDoNothing()
+    .returning();
+  if (row) await announceBlockChange(did, blockedDid);
+}
+
+/**
+ * Lift a block; false if there was none
+ */
+export async function unblockDid(did: string, blockedDid: string): Promise<boolean> {
+  const [row] = await db
+    .delete(blocks)
+    .where(and(eq(blocks.did, did), eq(blocks.blockedDid, blockedDid)))
+    .returning();
+  if (row) await announceBlockChange(did, blockedDid);
+  return Boolean(row);
+}
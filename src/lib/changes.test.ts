@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, migrated, conversations, participants, changeLog } from '@/test/db';
+import { logChange, wroteRows, getChangesSince, decodeCursor, encodeCursor } from './changes';
+
+vi.mock('@/db', () => import('@/test/db'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CONVERSATION_ID = 'conv_changes';
+
+function rekeyed(keyEpoch: number) {
+  return { type: 'conversation.rekeyed', conversationId: CONVERSATION_ID, keyEpoch, reason: 'left' } as const;
+}
+
+beforeAll(async () => {
+  await migrated;
+
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner', joinedAt: new Date('2020-01-01') },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member', joinedAt: new Date('2022-01-01') },
+  ]);
+}, 60_000);
+
+describe('change log', () => {
+  it('orders changes by writing transaction, so a late commit is not skipped', async () => {
+    const start = decodeCursor(encodeCursor({ txId: 0, seq: 0 }))!;
+
+    // seq 1 committed after seq 2: its transaction is newer
+    await db.insert(changeLog).values([
+      { txId: 2, conversationId: CONVERSATION_ID, type: 'conversation.rekeyed', payload: rekeyed(2) },
+      { txId: 1, conversationId: CONVERSATION_ID, type: 'conversation.rekeyed', payload: rekeyed(1) },
+    ]);
+
+    const first = await getChangesSince(ALICE, start, 1);
+    expect(first.changes.map((change) => change.keyEpoch)).toEqual([1]);
+    expect(first.hasMore).toBe(true);
+
+    const rest = await getChangesSince(ALICE, decodeCursor(first.cursor)!, 10);
+    expect(rest.changes.map((change) => change.keyEpoch)).toEqual([2]);
+    expect(rest.hasMore).toBe(false);
+  });
+
+  it('only shows conversation changes from when the participant joined', async () => {
+    await db.delete(changeLog);
+    await db.insert(changeLog).values({
+      conversationId: CONVERSATION_ID,
+      type: 'conversation.rekeyed',
+      payload: rekeyed(3),
+      createdAt: new Date('2021-01-01'),
+    });
+    await db.batch([logChange(rekeyed(4), { conversationId: CONVERSATION_ID })]);
+
+    const start = { txId: 0, seq: 0 };
+    expect((await getChangesSince(ALICE, start, 10)).changes.map((change) => change.keyEpoch)).toEqual([3, 4]);
+    expect((await getChangesSince(BOB, start, 10)).changes.map((change) => change.keyEpoch)).toEqual([4]);
+  });
+
+  it('logs a conditional write only if it happened', async () => {
+    await db.delete(changeLog);
+    const updated = wroteRows(conversations, eq(conversations.id, CONVERSATION_ID));
+
+    for (const keyEpoch of [0, 0]) {
+      await db.batch([
+        db
+          .update(conversations)
+          .set({ keyEpoch: keyEpoch + 1 })
+          .where(eq(conversations.keyEpoch, keyEpoch)),
+        logChange(rekeyed(keyEpoch + 1), { conversationId: CONVERSATION_ID }, updated),
+      ]);
+    }
+
+    expect(await db.select().from(changeLog)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Change feed for offline catch-up (GET /api/sync)
+ *
+ * Durable realtime events are appended to `change_log` in the same db.batch()
+ * (one transaction) as the write they report, so a change is logged exactly
+ * when it commits. Message events only store the message ID and are resolved
+ * to the message's current state when read, so deleting a message also
+ * removes its content from the feed.
+ *
+ * `seq` is handed out before commit, so a lower seq can become visible after
+ * a higher one. The feed is therefore ordered by writing transaction, then
+ * seq, and only serves rows of transactions older than the oldest one still
+ * running: no row can appear before those any more, so a cursor never skips
+ * a change that commits later.
+ *
+ * That boundary is database-wide: any long-running transaction (a pg_dump, a
+ * migration, a stuck session) holds it back and every feed stops advancing
+ * until it ends. Keep idle_in_transaction_session_timeout and
+ * statement_timeout set for the app's role and run long jobs on a replica.
+ */
+
+import { eq, and, or, lt, asc, exists, inArray, notInArray, sql, type SQL } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { db, participants, messages, blocks, changeLog } from '@/db';
+import { toTombstone } from './messaging';
+import type { RealtimeEvent } from './realtime';
+
+const DURABLE_EVENTS = new Set<RealtimeEvent['type']>([
+  'message',
+  'message.edited',
+  'message.deleted',
+  'conversation.joined',
+  'conversation.left',
+  'conversation.updated',
+  'message-request.declined',
+  'participant.added',
+  'participant.updated',
+  'participant.removed',
+  'conversation.rekeyed',
+  'sender-key.received',
+  'identity-key.changed',
+  'pre-keys.low',
+  'devices.changed',
+  'device.linked',
+  'device.revoked',
+  'report.updated',
+]);
+
+const MESSAGE_EVENTS = new Set<RealtimeEvent['type']>(['message', 'message.edited', 'message.deleted']);
+
+/** What the log keeps of an event - message events only need the message ID */
+export type ChangeEvent =
+  | Exclude<RealtimeEvent, { type: 'message' | 'message.edited' | 'message.deleted' }>
+  | { type: 'message' | 'message.edited'; id: string }
+  | { type: 'message.deleted'; id: string; deletedBy: string };
+
+export interface ChangeTarget {
+  conversationId?: string;
+  did?: string;
+}
+
+/** Position in the log: writing transaction, then seq */
+export interface LogPosition {
+  txId: number;
+  seq: number;
+}
+
+const CURSOR_PREFIX = 'v1:';
+
+/** Oldest transaction still running; everything below it has settled */
+const oldestRunningTx = sql<number>`pg_snapshot_xmin(pg_current_snapshot())::text::bigint`;
+
+/**
+ * Whether an event is kept for sync (typing, presence and read aren't)
+ */
+export function isDurable(event: RealtimeEvent | ChangeEvent): boolean {
+  return DURABLE_EVENTS.has(event.type);
+}
+
+/**
+ * Encode a log position as an opaque cursor
+ */
+export function encodeCursor(position: LogPosition): string {
+  return Buffer.from(`${CURSOR_PREFIX}${position.txId}:${position.seq}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor; null if it wasn't produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): LogPosition | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  const isPosition = (n: number) => Number.isSafeInteger(n) && n >= 0;
+
+  if (!decoded.startsWith(CURSOR_PREFIX)) return null;
+  const [txId, seq, ...rest] = decoded.slice(CURSOR_PREFIX.length).split(':').map(Number);
+  return rest.length === 0 && isPosition(txId) && isPosition(seq) ? { txId, seq } : null;
+}
+
+/**
+ * Change log insert for a durable event. Run it in the same db.batch() as
+ * the write the event reports, then publish the event once the batch is
+ * through.
+ *
+ * For a conditional write, put the log insert after it and pass `when`
+ * (usually wroteRows()) so nothing is logged if the write didn't happen.
+ */
+export function logChange(event: ChangeEvent, target: ChangeTarget, when?: SQL) {
+  let payload: object = event;
+  if (event.type === 'message' || event.type === 'message.edited') {
+    payload = { type: event.type, id: event.id };
+  } else if (event.type === 'message.deleted') {
+    payload = { type: event.type, id: event.id, deletedBy: event.deletedBy };
+  }
+
+  const row = {
+    conversationId: target.conversationId ?? null,
+    did: target.did ?? null,
+    type: event.type,
+    payload,
+  };
+
+  if (!when) {
+    return db.insert(changeLog).values(row);
+  }
+
+  const column = (name: keyof typeof row) => sql.identifier(changeLog[name].name);
+  return db.execute(sql`
+    insert into ${changeLog} (${column('conversationId')}, ${column('did')}, ${column('type')}, ${column('payload')})
+    select ${row.conversationId}, ${row.did}, ${row.type}, ${JSON.stringify(payload)}::jsonb
+    where ${when}
+  `);
+}
+
+/**
+ * Condition for logChange: whether this transaction wrote any row of `table`
+ * matching `where` (a conditional update that matched nothing didn't)
+ */
+export function wroteRows(table: PgTable, where: SQL | undefined): SQL {
+  return sql`exists (select 1 from ${table} where ${where} and ${table}.xmin = pg_current_xact_id()::xid)`;
+}
+
+/**
+ * Cursor at the end of the settled log. Changes still committing sort after
+ * it, so a client may see an event again after syncing from here.
+ */
+export async function getHeadCursor(): Promise<string> {
+  const { rows } = await db.execute<{ txId: string }>(sql`select ${oldestRunningTx} as "txId"`);
+  return encodeCursor({ txId: Number(rows[0].txId), seq: 0 });
+}
+
+/**
+ * Changes after `since` visible to `did`: events addressed to them directly,
+ * plus those in conversations they belong to, from the time they joined.
+ */
+export async function getChangesSince(did: string, since: LogPosition, limit: number) {
+  const membership = db
+    .select({ did: participants.did })
+    .from(participants)
+    .where(
+      and(
+        eq(participants.conversationId, changeLog.conversationId),
+        eq(participants.did, did),
+        sql`${changeLog.createdAt} >= ${participants.joinedAt}`
+      )
+    );
+
+  const rows = await db
+    .select()
+    .from(changeLog)
+    .where(
+      and(
+        sql`(${changeLog.txId}, ${changeLog.seq}) > (${since.txId}, ${since.seq})`,
+        lt(changeLog.txId, oldestRunningTx),
+        or(exists(membership), eq(changeLog.did, did))
+      )
+    )
+    .orderBy(asc(changeLog.txId), asc(changeLog.seq))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  // Resolve message events to current state; messages from DIDs `did`
+  // blocked are dropped like deleted ones
+  const messageIds = Array.from(new Set(
+    page
+      .filter((row) => MESSAGE_EVENTS.has(row.type as RealtimeEvent['type']))
+      .map((row) => (row.payload as { id: string }).id)
+  ));
+  const currentMessages = messageIds.length > 0
+    ? await db.query.messages.findMany({
+        where: and(
+          inArray(messages.id, messageIds),
+          notInArray(
+            messages.fromDid,
+            db.select({ did: blocks.blockedDid }).from(blocks).where(eq(blocks.did, did))
+          )
+        ),
+      })
+    : [];
+  const messagesById = new Map(currentMessages.map((m) => [m.id, m]));
+
+  const changes = page.flatMap<Record<string, unknown>>((row) => {
+    const payload = row.payload as Record<string, unknown>;
+    const cursor = encodeCursor(row);
+
+    if (!MESSAGE_EVENTS.has(row.type as RealtimeEvent['type'])) {
+      return [{ ...payload, cursor }];
+    }
+
+    const message = messagesById.get(payload.id as string);
+    if (!message) return [];
+
+    const current = message.deletedAt ? toTombstone(message) : message;
+    return [{ ...payload, ...current, type: row.type, cursor }];
+  });
+
+  return {
+    changes,
+    cursor: encodeCursor(page.length > 0 ? page[page.length - 1] : since),
+    hasMore,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Connections graph client
+ *
+ * Trust-bound conversations (see ./trust.ts) ask how many hops apart two DIDs
+ * are in the trust network. The graph lives in the connections service when
+ * CONNECTIONS_SERVICE_URL is set; otherwise an in-memory graph stands in
+ * (dev and tests), which starts out empty - nobody is connected.
+ */
+
+export interface ConnectionsGraph {
+  /** Fewest hops from `did` to any of `targets`, or null if none is within `maxHops` */
+  distance(did: string, targets: string[], maxHops: number): Promise<number | null>;
+}
+
+export interface LocalConnectionsGraph extends ConnectionsGraph {
+  connect(a: string, b: string): void;
+  disconnect(a: string, b: string): void;
+}
+
+/**
+ * In-memory undirected graph - breadth-first search up to maxHops
+ */
+export function createLocalConnectionsGraph(edges: Array<[string, string]> = []): LocalConnectionsGraph {
+  const neighbors = new Map<string, Set<string>>();
+
+  const link = (a: string, b: string) => {
+    const set = neighbors.get(a) ?? new Set<string>();
+    set.add(b);
+    neighbors.set(a, set);
+  };
+
+  const graph: LocalConnectionsGraph = {
+    async distance(did, targets, maxHops) {
+      const goal = new Set(targets);
+      const seen = new Set([did]);
+      let frontier = [did];
+
+      for (let hops = 0; hops <= maxHops && frontier.length > 0; hops++) {
+        if (frontier.some((d) => goal.has(d))) return hops;
+
+        const next: string[] = [];
+        for (const d of frontier) {
+          neighbors.get(d)?.forEach((n) => {
+            if (!seen.has(n)) {
+              seen.add(n);
+              next.push(n);
+            }
+          });
+        }
+        frontier = next;
+      }
+      return null;
+    },
+    connect(a, b) {
+      link(a, b);
+      link(b, a);
+    },
+    disconnect(a, b) {
+      neighbors.get(a)?.delete(b);
+      neighbors.get(b)?.delete(a);
+    },
+  };
+
+  for (const [a, b] of edges) graph.connect(a, b);
+  return graph;
+}
+
+/**
+ * Connections service - POST /api/graph/distance { from, to, maxHops } → { distance }
+ */
+export function createHttpConnectionsGraph(url: string): ConnectionsGraph {
+  const base = url.replace(/\/+$/, '');
+
+  return {
+    async distance(did, targets, maxHops) {
+      const response = await fetch(`${base}/api/graph/distance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: did, to: targets, maxHops }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Connections service returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      return typeof data.distance === 'number' && data.distance <= maxHops ? data.distance : null;
+    },
+  };
+}
+
+/**
+ * Pick the graph from configuration
+ */
+export function createConnectionsGraph(): ConnectionsGraph {
+  const url = process.env.CONNECTIONS_SERVICE_URL;
+  return url ? createHttpConnectionsGraph(url) : createLocalConnectionsGraph();
+}
+
+// Shared between the custom server and route handlers, like the realtime hub
+const globalForGraph = globalThis as unknown as { imajinChatConnections?: ConnectionsGraph };
+
+export function getConnectionsGraph(): ConnectionsGraph {
+  if (!globalForGraph.imajinChatConnections) {
+    globalForGraph.imajinChatConnections = createConnectionsGraph();
+  }
+  return globalForGraph.imajinChatConnections;
+}
+
+/**
+ * Replace the graph (tests seed a local one)
+ */
+export function setConnectionsGraph(graph: ConnectionsGraph): void {
+  globalForGraph.imajinChatConnections = graph;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateKeyPair,
+  keyToHex,
+  x3dhInitiate,
+  x3dhRespond,
+  deriveX3DHKeys,
+  encryptInitialMessage,
+  decryptInitialMessage,
+  decryptMessage,
+  signDeviceProof,
+  verifyDeviceProof,
+  type X3DHKeyBundle,
+} from './crypto';
+
+function responder(withOneTimePreKey: boolean) {
+  const identity = generateKeyPair();
+  const signedPreKey = generateKeyPair();
+  const oneTimePreKey = withOneTimePreKey ? generateKeyPair() : null;
+  const bundle: X3DHKeyBundle = {
+    did: 'did:imajin:bob',
+    identityKey: keyToHex(identity.publicKey),
+    signedPreKey: keyToHex(signedPreKey.publicKey),
+    signature: '',
+    oneTimePreKey: oneTimePreKey ? keyToHex(oneTimePreKey.publicKey) : null,
+  };
+  return { identity, signedPreKey, oneTimePreKey, bundle };
+}
+
+describe('X3DH', () => {
+  it.each([true, false])('agrees on a secret (one-time pre-key: %s)', (withOneTimePreKey) => {
+    const alice = generateKeyPair();
+    const bob = responder(withOneTimePreKey);
+
+    const initiated = x3dhInitiate(alice, bob.bundle);
+    const responded = x3dhRespond(bob.identity, bob.signedPreKey, bob.oneTimePreKey, initiated.header);
+
+    expect(keyToHex(responded.sharedSecret)).toBe(keyToHex(initiated.sharedSecret));
+    expect(keyToHex(responded.associatedData)).toBe(keyToHex(initiated.associatedData));
+  });
+
+  it('rejects a header naming a one-time pre-key the responder does not pass', () => {
+    const alice = generateKeyPair();
+    const bob = responder(true);
+    const { header } = x3dhInitiate(alice, bob.bundle);
+
+    expect(() => x3dhRespond(bob.identity, bob.signedPreKey, null, header)).toThrow();
+  });
+
+  it('opens the initial message on the responder side', () => {
+    const alice = generateKeyPair();
+    const bob = responder(true);
+
+    const sent = encryptInitialMessage('hello bob', alice, bob.bundle);
+    const received = decryptInitialMessage(sent.content, bob.identity, bob.signedPreKey, bob.oneTimePreKey);
+
+    expect(received.plaintext).toBe('hello bob');
+  });
+
+  it('never encrypts the initial message under the raw secret or the root key', () => {
+    const alice = generateKeyPair();
+    const bob = responder(false);
+
+    const sent = encryptInitialMessage('hello bob', alice, bob.bundle);
+    const { rootKey, initialMessageKey } = deriveX3DHKeys(sent.sharedSecret);
+
+    expect(keyToHex(rootKey)).not.toBe(keyToHex(initialMessageKey));
+    expect(keyToHex(rootKey)).not.toBe(keyToHex(sent.sharedSecret));
+    expect(() => decryptMessage(sent.content.encrypted, sent.content.nonce, sent.sharedSecret, sent.associatedData)).toThrow();
+    expect(() => decryptMessage(sent.content.encrypted, sent.content.nonce, rootKey, sent.associatedData)).toThrow();
+    expect(decryptMessage(sent.content.encrypted, sent.content.nonce, initialMessageKey, sent.associatedData)).toBe('hello bob');
+  });
+});
+
+describe('Device proofs (XEdDSA)', () => {
+  const statement = { action: 'revoke', did: 'did:imajin:alice', deviceId: 'dev_a', targetId: 'dev_b' };
+
+  it('verifies against the X25519 identity key, whichever sign its Edwards form has', () => {
+    for (let i = 0; i < 16; i++) {
+      const identity = generateKeyPair();
+      const proof = signDeviceProof(statement, identity.privateKey);
+
+      expect(verifyDeviceProof(statement, proof, keyToHex(identity.publicKey))).toBe(true);
+    }
+  });
+
+  it('rejects another key, another statement or a tampered proof', () => {
+    const identity = generateKeyPair();
+    const proof = signDeviceProof(statement, identity.privateKey);
+    const tampered = (proof[0] === '0' ? '1' : '0') + proof.slice(1);
+
+    expect(verifyDeviceProof(statement, proof, keyToHex(generateKeyPair().publicKey))).toBe(false);
+    expect(verifyDeviceProof({ ...statement, targetId: 'dev_c' }, proof, keyToHex(identity.publicKey))).toBe(false);
+    expect(verifyDeviceProof(statement, tampered, keyToHex(identity.publicKey))).toBe(false);
+    expect(verifyDeviceProof(statement, undefined, keyToHex(identity.publicKey))).toBe(false);
+  });
+});
@@ -1,19 +1,29 @@
 /**
  * E2EE utilities using @noble libraries
  * 
- * Simplified implementation - upgrade to full Signal Protocol (Sender Keys) later
+ * X3DH for session setup; see ./ratchet.ts for direct messages and
+ * ./senderkeys.ts for groups
  */
 
-import { x25519 } from '@noble/curves/ed25519';
+import { ed25519, x25519 } from '@noble/curves/ed25519';
 import { xchacha20poly1305 } from '@noble/ciphers/chacha';
 import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
 import { sha256 } from '@noble/hashes/sha256';
-import { randomBytes } from '@noble/hashes/utils';
+import { sha512 } from '@noble/hashes/sha512';
+import { randomBytes, concatBytes } from '@noble/hashes/utils';
+import { bytesToNumberLE, numberToBytesLE } from '@noble/curves/abstract/utils';
+import { mod } from '@noble/curves/abstract/modular';
+
+export interface KeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
 
 /**
  * Generate a new X25519 key pair
  */
-export function generateKeyPair(): { publicKey: Uint8Array; privateKey: Uint8Array } {
+export function generateKeyPair(): KeyPair {
   const privateKey = randomBytes(32);
   const publicKey = x25519.getPublicKey(privateKey);
   return { publicKey, privateKey };
@@ -30,16 +40,18 @@ export function deriveSharedSecret(privateKey: Uint8Array, publicKey: Uint8Array
 
 /**
  * Encrypt a message
+ * `associatedData` is authenticated but not encrypted (e.g. X3DH identity binding)
  */
 export function encryptMessage(
   plaintext: string,
-  sharedSecret: Uint8Array
+  sharedSecret: Uint8Array,
+  associatedData?: Uint8Array
 ): { ciphertext: string; nonce: string } {
   const nonce = randomBytes(24); // XChaCha20 uses 24-byte nonce
   const encoder = new TextEncoder();
   const plaintextBytes = encoder.encode(plaintext);
   
-  const cipher = xchacha20poly1305(sharedSecret, nonce);
+  const cipher = xchacha20poly1305(sharedSecret, nonce, associatedData);
   const ciphertext = cipher.encrypt(plaintextBytes);
   
   return {
@@ -54,12 +66,13 @@ export function encryptMessage(
 export function decryptMessage(
   ciphertext: string,
   nonce: string,
-  sharedSecret: Uint8Array
+  sharedSecret: Uint8Array,
+  associatedData?: Uint8Array
 ): string {
   const ciphertextBytes = Buffer.from(ciphertext, 'base64');
   const nonceBytes = Buffer.from(nonce, 'base64');
   
-  const cipher = xchacha20poly1305(sharedSecret, nonceBytes);
+  const cipher = xchacha20poly1305(sharedSecret, nonceBytes, associatedData);
   const plaintextBytes = cipher.decrypt(ciphertextBytes);
   
   const decoder = new TextDecoder();
@@ -107,3 +120,551 @@ export function encryptGroupKey(
     nonce: Buffer.from(nonce).toString('base64'),
   };
 }
+
+// ---------------------------------------------------------------------------
+// X3DH key agreement
+// https://signal.org/docs/specifications/x3dh/
+// ---------------------------------------------------------------------------
+
+/**
+ * One device's key bundle from GET /api/keys/:did (keys are hex-encoded X25519)
+ */
+export interface X3DHKeyBundle {
+  did: string;
+  deviceId?: string;
+  identityKey: string;
+  signedPreKey: string;
+  signature: string;
+  oneTimePreKey: string | null;
+  oneTimePreKeyId?: string | null;
+}
+
+/**
+ * Sent in the clear alongside the first message so the responder can
+ * repeat the key agreement
+ */
+export interface X3DHHeader {
+  version: 1;
+  identityKey: string;              // Initiator's identity key
+  ephemeralKey: string;             // Initiator's ephemeral key
+  signedPreKey: string;             // Responder's signed pre-key that was used
+  oneTimePreKey: string | null;     // Responder's one-time pre-key that was used, if any
+  oneTimePreKeyId: string | null;   // Server ID of that pre-key, if known
+}
+
+/**
+ * First message of a session, stored as `messages.content`
+ */
+export interface X3DHInitialMessage {
+  x3dh: X3DHHeader;
+  encrypted: string;
+  nonce: string;
+}
+
+export interface X3DHResult {
+  sharedSecret: Uint8Array;
+  associatedData: Uint8Array;
+}
+
+const X3DH_INFO = 'imajin-chat-x3dh-v1';
+const X3DH_ROOT_KEY_INFO = 'imajin-chat-x3dh-root-key-v1';
+const X3DH_INITIAL_MESSAGE_INFO = 'imajin-chat-x3dh-initial-message-v1';
+const KEY_LENGTH = 32;
+
+function decodeX25519Key(hex: string, label: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error(`${label} must be a 32-byte hex-encoded X25519 key`);
+  }
+  return hexToKey(hex);
+}
+
+/**
+ * KDF(DH1 || DH2 || DH3 [|| DH4]) with the 0xFF prefix and zero salt from the spec
+ */
+function x3dhKdf(dhOutputs: Uint8Array[]): Uint8Array {
+  const prefix = new Uint8Array(KEY_LENGTH).fill(0xff);
+  const salt = new Uint8Array(KEY_LENGTH);
+  return hkdf(sha256, concatBytes(prefix, ...dhOutputs), salt, X3DH_INFO, KEY_LENGTH);
+}
+
+/**
+ * Split the X3DH secret into the Double Ratchet root key and the key for the
+ * initial message, so neither is ever used for the other's purpose
+ */
+export function deriveX3DHKeys(sharedSecret: Uint8Array): { rootKey: Uint8Array; initialMessageKey: Uint8Array } {
+  return {
+    rootKey: hkdf(sha256, sharedSecret, undefined, X3DH_ROOT_KEY_INFO, KEY_LENGTH),
+    initialMessageKey: hkdf(sha256, sharedSecret, undefined, X3DH_INITIAL_MESSAGE_INFO, KEY_LENGTH),
+  };
+}
+
+/**
+ * AD = IK_initiator || IK_responder - binds both identities to every message
+ */
+function x3dhAssociatedData(initiatorIdentity: Uint8Array, responderIdentity: Uint8Array): Uint8Array {
+  return concatBytes(initiatorIdentity, responderIdentity);
+}
+
+/**
+ * Initiator side: derive the session secret from the responder's bundle.
+ * The bundle's signed pre-key signature must be verified by the caller first
+ * (verifyPreKeySignature).
+ */
+export function x3dhInitiate(
+  identity: KeyPair,
+  bundle: X3DHKeyBundle
+): X3DHResult & { header: X3DHHeader } {
+  const responderIdentity = decodeX25519Key(bundle.identityKey, 'identityKey');
+  const signedPreKey = decodeX25519Key(bundle.signedPreKey, 'signedPreKey');
+  const oneTimePreKey = bundle.oneTimePreKey
+    ? decodeX25519Key(bundle.oneTimePreKey, 'oneTimePreKey')
+    : null;
+
+  const ephemeral = generateKeyPair();
+
+  const dhOutputs = [
+    x25519.getSharedSecret(identity.privateKey, signedPreKey),
+    x25519.getSharedSecret(ephemeral.privateKey, responderIdentity),
+    x25519.getSharedSecret(ephemeral.privateKey, signedPreKey),
+  ];
+  if (oneTimePreKey) {
+    dhOutputs.push(x25519.getSharedSecret(ephemeral.privateKey, oneTimePreKey));
+  }
+
+  return {
+    sharedSecret: x3dhKdf(dhOutputs),
+    associatedData: x3dhAssociatedData(identity.publicKey, responderIdentity),
+    header: {
+      version: 1,
+      identityKey: keyToHex(identity.publicKey),
+      ephemeralKey: keyToHex(ephemeral.publicKey),
+      signedPreKey: bundle.signedPreKey,
+      oneTimePreKey: bundle.oneTimePreKey,
+      oneTimePreKeyId: bundle.oneTimePreKeyId ?? null,
+    },
+  };
+}
+
+/**
+ * Responder side: repeat the agreement from the initiator's header using our
+ * private keys. `oneTimePreKey` must be the pair named in the header (and
+ * should be deleted afterwards).
+ */
+export function x3dhRespond(
+  identity: KeyPair,
+  signedPreKey: KeyPair,
+  oneTimePreKey: KeyPair | null,
+  header: X3DHHeader
+): X3DHResult {
+  if (header.version !== 1) {
+    throw new Error(`Unsupported X3DH version: ${header.version}`);
+  }
+  if (header.signedPreKey !== keyToHex(signedPreKey.publicKey)) {
+    throw new Error('Header names a different signed pre-key');
+  }
+  if (header.oneTimePreKey && (!oneTimePreKey || header.oneTimePreKey !== keyToHex(oneTimePreKey.publicKey))) {
+    throw new Error('Header names a one-time pre-key that was not provided');
+  }
+
+  const initiatorIdentity = decodeX25519Key(header.identityKey, 'identityKey');
+  const ephemeralKey = decodeX25519Key(header.ephemeralKey, 'ephemeralKey');
+
+  const dhOutputs = [
+    x25519.getSharedSecret(signedPreKey.privateKey, initiatorIdentity),
+    x25519.getSharedSecret(identity.privateKey, ephemeralKey),
+    x25519.getSharedSecret(signedPreKey.privateKey, ephemeralKey),
+  ];
+  if (header.oneTimePreKey && oneTimePreKey) {
+    dhOutputs.push(x25519.getSharedSecret(oneTimePreKey.privateKey, ephemeralKey));
+  }
+
+  return {
+    sharedSecret: x3dhKdf(dhOutputs),
+    associatedData: x3dhAssociatedData(initiatorIdentity, identity.publicKey),
+  };
+}
+
+/**
+ * Build the first message of a session: run X3DH and encrypt `plaintext`
+ * under the initial message key (deriveX3DHKeys). Keep `sharedSecret` to
+ * continue the session.
+ */
+export function encryptInitialMessage(
+  plaintext: string,
+  identity: KeyPair,
+  bundle: X3DHKeyBundle
+): X3DHResult & { content: X3DHInitialMessage } {
+  const { sharedSecret, associatedData, header } = x3dhInitiate(identity, bundle);
+  const { initialMessageKey } = deriveX3DHKeys(sharedSecret);
+  const { ciphertext, nonce } = encryptMessage(plaintext, initialMessageKey, associatedData);
+
+  return {
+    sharedSecret,
+    associatedData,
+    content: { x3dh: header, encrypted: ciphertext, nonce },
+  };
+}
+
+/**
+ * Open the first message of a session
+ */
+export function decryptInitialMessage(
+  content: X3DHInitialMessage,
+  identity: KeyPair,
+  signedPreKey: KeyPair,
+  oneTimePreKey: KeyPair | null
+): X3DHResult & { plaintext: string } {
+  const { sharedSecret, associatedData } = x3dhRespond(identity, signedPreKey, oneTimePreKey, content.x3dh);
+  const { initialMessageKey } = deriveX3DHKeys(sharedSecret);
+  const plaintext = decryptMessage(content.encrypted, content.nonce, initialMessageKey, associatedData);
+
+  return { sharedSecret, associatedData, plaintext };
+}
+
+// ---------------------------------------------------------------------------
+// Signed pre-keys
+// The signed pre-key is signed with the identity's Ed25519 key from the auth
+// service (Identity.publicKey), so a bundle can't be swapped by the server.
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether `hex` is a hex-encoded key of `length` bytes
+ */
+export function isHexKey(hex: unknown, length = KEY_LENGTH): hex is string {
+  return typeof hex === 'string' && hex.length === length * 2 && /^[0-9a-f]+$/i.test(hex);
+}
+
+/**
+ * Sign a signed pre-key (raw 32-byte public key) with an Ed25519 private key
+ */
+export function signPreKey(signedPreKey: Uint8Array, signingPrivateKey: Uint8Array): string {
+  return keyToHex(ed25519.sign(signedPreKey, signingPrivateKey));
+}
+
+/**
+ * Verify a signed pre-key signature; false for anything malformed
+ */
+export function verifyPreKeySignature(
+  signedPreKey: string,
+  signature: string,
+  signingPublicKey: string
+): boolean {
+  if (!isHexKey(signedPreKey) || !isHexKey(signature, 64) || !isHexKey(signingPublicKey)) {
+    return false;
+  }
+
+  try {
+    return ed25519.verify(hexToKey(signature), hexToKey(signedPreKey), hexToKey(signingPublicKey));
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Safety numbers
+// Numeric fingerprint of both parties' identity keys, compared out-of-band
+// (read aloud or scanned). Same construction as Signal's: 5200 rounds of
+// SHA-512 per party, 30 digits each, the lower half first so both sides see
+// the same number.
+// ---------------------------------------------------------------------------
+
+const SAFETY_NUMBER_VERSION = 0;
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+function fingerprintDigits(did: string, identityKeys: string[]): string {
+  // Every device's key counts; order must not depend on who asks
+  const keys = concatBytes(...[...identityKeys].sort().map(hexToKey));
+  const id = new TextEncoder().encode(did);
+
+  const version = new Uint8Array(2);
+  new DataView(version.buffer).setUint16(0, SAFETY_NUMBER_VERSION);
+
+  let hash = sha512(concatBytes(version, keys, id));
+  for (let i = 1; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    hash = sha512(concatBytes(hash, keys));
+  }
+
+  let digits = '';
+  for (let i = 0; i < 30; i += 5) {
+    const chunk = hash.slice(i, i + 5).reduce((n, byte) => n * 256 + byte, 0);
+    digits += (chunk % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * 60-digit safety number for two DIDs and their identity keys (hex, one per device)
+ */
+export function computeSafetyNumber(
+  localDid: string,
+  localIdentityKeys: string[],
+  remoteDid: string,
+  remoteIdentityKeys: string[]
+): string {
+  const local = fingerprintDigits(localDid, localIdentityKeys);
+  const remote = fingerprintDigits(remoteDid, remoteIdentityKeys);
+  return local < remote ? local + remote : remote + local;
+}
+
+/**
+ * Split a safety number into groups of five digits for display
+ */
+export function formatSafetyNumber(safetyNumber: string): string {
+  return safetyNumber.match(/.{1,5}/g)?.join(' ') ?? '';
+}
+
+// ---------------------------------------------------------------------------
+// Message signatures
+// The server sets messages.fromDid from the bearer token, so on its own it
+// proves nothing to recipients. Senders may add `signature` to the content
+// envelope: Ed25519 over the conversation, sender DID and the rest of the
+// envelope, with the DID's key from the auth service (Identity.publicKey).
+// Content is stored as JSONB, which reorders keys - sign canonical JSON.
+// ---------------------------------------------------------------------------
+
+const MESSAGE_SIGNATURE_CONTEXT = 'imajin-chat-message-v1';
+
+/**
+ * JSON with object keys sorted at every level
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function messageSignaturePayload(
+  conversationId: string,
+  fromDid: string,
+  content: Record<string, unknown>
+): Uint8Array {
+  const envelope = { ...content };
+  delete envelope.signature;
+  return new TextEncoder().encode(
+    canonicalJson([MESSAGE_SIGNATURE_CONTEXT, conversationId, fromDid, envelope])
+  );
+}
+
+/**
+ * Signature to put in `content.signature` (any existing one is ignored)
+ */
+export function signMessage(
+  conversationId: string,
+  fromDid: string,
+  content: Record<string, unknown>,
+  signingPrivateKey: Uint8Array
+): string {
+  return keyToHex(ed25519.sign(messageSignaturePayload(conversationId, fromDid, content), signingPrivateKey));
+}
+
+/**
+ * Verify `content.signature` against the sender's Ed25519 key (hex); false if
+ * the message is unsigned or anything is malformed
+ */
+export function verifyMessageSignature(
+  conversationId: string,
+  fromDid: string,
+  content: Record<string, unknown>,
+  signingPublicKey: string
+): boolean {
+  const { signature } = content;
+  if (!isHexKey(signature, 64) || !isHexKey(signingPublicKey)) {
+    return false;
+  }
+
+  try {
+    return ed25519.verify(
+      hexToKey(signature),
+      messageSignaturePayload(conversationId, fromDid, content),
+      hexToKey(signingPublicKey)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Device proofs
+// A device proves it holds its identity key by signing what it's about to do.
+// Identity keys are X25519, so this is XEdDSA (as in Signal): an Ed25519
+// signature under the key's Edwards form, with the sign bit fixed to 0.
+// ---------------------------------------------------------------------------
+
+const DEVICE_PROOF_CONTEXT = 'imajin-device-proof-v1';
+const XEDDSA_HASH_PREFIX = concatBytes(new Uint8Array([0xfe]), new Uint8Array(31).fill(0xff));
+
+function deviceProofPayload(statement: Record<string, unknown>): Uint8Array {
+  return new TextEncoder().encode(canonicalJson([DEVICE_PROOF_CONTEXT, statement]));
+}
+
+/**
+ * Edwards public key (sign bit 0) of an X25519 public key
+ */
+function montgomeryToEdwards(publicKey: Uint8Array): Uint8Array {
+  const { Fp } = ed25519.CURVE;
+  const u = bytesToNumberLE(publicKey);
+  if (u >= Fp.ORDER) throw new Error('Invalid X25519 public key');
+  return numberToBytesLE(Fp.div(Fp.sub(u, BigInt(1)), Fp.add(u, BigInt(1))), 32);
+}
+
+/**
+ * Sign a statement with a device's X25519 identity private key
+ */
+export function signDeviceProof(statement: Record<string, unknown>, identityPrivateKey: Uint8Array): string {
+  const { n } = ed25519.CURVE;
+  const message = deviceProofPayload(statement);
+
+  const clamped = Uint8Array.from(identityPrivateKey);
+  clamped[0] &= 248;
+  clamped[31] &= 127;
+  clamped[31] |= 64;
+  const k = mod(bytesToNumberLE(clamped), n);
+
+  // The Edwards key with its sign bit cleared, and the scalar that goes with it
+  const publicKey = ed25519.Point.BASE.multiply(k).toBytes();
+  const a = publicKey[31] & 0x80 ? mod(-k, n) : k;
+  publicKey[31] &= 0x7f;
+
+  const scalar = numberToBytesLE(a, 32);
+  const r = mod(bytesToNumberLE(sha512(concatBytes(XEDDSA_HASH_PREFIX, scalar, message, randomBytes(64)))), n);
+  const R = ed25519.Point.BASE.multiply(r).toBytes();
+  const h = mod(bytesToNumberLE(sha512(concatBytes(R, publicKey, message))), n);
+
+  return keyToHex(concatBytes(R, numberToBytesLE(mod(r + h * a, n), 32)));
+}
+
+/**
+ * Verify a device proof against an X25519 identity key (hex); false for
+ * anything malformed
+ */
+export function verifyDeviceProof(statement: Record<string, unknown>, proof: unknown, identityKey: string): boolean {
+  if (!isHexKey(proof, 64) || !isHexKey(identityKey)) {
+    return false;
+  }
+
+  try {
+    return ed25519.verify(hexToKey(proof), deviceProofPayload(statement), montgomeryToEdwards(hexToKey(identityKey)), {
+      zip215: false,
+    });
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Trust attestations
+// When a group member extends trust to another, they sign a statement with
+// their DID key so the connections service can check it without trusting
+// this server.
+// ---------------------------------------------------------------------------
+
+const TRUST_ATTESTATION_CONTEXT = 'imajin-trust-attestation-v1';
+
+export interface TrustAttestation {
+  issuer: string;                 // DID extending trust
+  subject: string;                // DID trusted
+  conversationId: string;         // Group it happened in
+  issuedAt: string;               // ISO 8601
+}
+
+function trustAttestationPayload(attestation: TrustAttestation): Uint8Array {
+  const { issuer, subject, conversationId, issuedAt } = attestation;
+  return new TextEncoder().encode(
+    canonicalJson([TRUST_ATTESTATION_CONTEXT, issuer, subject, conversationId, issuedAt])
+  );
+}
+
+/**
+ * Sign a trust attestation with the issuer's Ed25519 DID key
+ */
+export function signTrustAttestation(attestation: TrustAttestation, signingPrivateKey: Uint8Array): string {
+  return keyToHex(ed25519.sign(trustAttestationPayload(attestation), signingPrivateKey));
+}
+
+/**
+ * Verify a trust attestation against the issuer's key (hex); false for anything malformed
+ */
+export function verifyTrustAttestation(
+  attestation: TrustAttestation,
+  signature: string,
+  signingPublicKey: string
+): boolean {
+  if (!isHexKey(signature, 64) || !isHexKey(signingPublicKey)) {
+    return false;
+  }
+
+  try {
+    return ed25519.verify(hexToKey(signature), trustAttestationPayload(attestation), hexToKey(signingPublicKey));
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Message franking
+// Abuse reports carry plaintext the server has never seen. Senders commit to
+// it: a random franking key travels inside the ciphertext, and
+// content.commitment = HMAC-SHA256(key, conversation, sender, plaintext)
+// outside it. The server keeps each message's commitment, so a reporter who
+// reveals plaintext and key proves what was sent. Recipients should check the
+// commitment after decrypting, or a sender could commit to something else.
+// ---------------------------------------------------------------------------
+
+const FRANKING_CONTEXT = 'imajin-chat-franking-v1';
+
+/**
+ * Fresh franking key for one message
+ */
+export function generateFrankingKey(): Uint8Array {
+  return randomBytes(KEY_LENGTH);
+}
+
+function frankingPayload(conversationId: string, fromDid: string, plaintext: string): Uint8Array {
+  return new TextEncoder().encode(canonicalJson([FRANKING_CONTEXT, conversationId, fromDid, plaintext]));
+}
+
+/**
+ * Commitment to put in `content.commitment`
+ */
+export function commitMessage(
+  conversationId: string,
+  fromDid: string,
+  plaintext: string,
+  frankingKey: Uint8Array
+): string {
+  return keyToHex(hmac(sha256, frankingKey, frankingPayload(conversationId, fromDid, plaintext)));
+}
+
+/**
+ * Whether revealed plaintext and franking key (hex) open `commitment`; false
+ * for anything malformed
+ */
+export function verifyMessageCommitment(
+  conversationId: string,
+  fromDid: string,
+  plaintext: string,
+  frankingKey: string,
+  commitment: string
+): boolean {
+  if (!isHexKey(frankingKey) || !isHexKey(commitment)) {
+    return false;
+  }
+
+  const expected = hexToKey(commitMessage(conversationId, fromDid, plaintext, hexToKey(frankingKey)));
+  const actual = hexToKey(commitment);
+
+  // Constant time
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ actual[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,185 @@
+/**
+ * Devices under a DID
+ *
+ * The auth service identifies the DID; clients name the device they act as
+ * with the X-Device-Id header. Pairwise encryption is per device, so direct
+ * messages carry one envelope per recipient device:
+ *   content: { devices: { dev_xxx: { ratchet, encrypted, nonce }, ... } }
+ *
+ * Anyone holding the DID's session can send any device ID, so linking and
+ * revoking devices and replacing keys also need a device proof: the acting
+ * device's signature over what it's doing, by the identity key in its bundle
+ * (X-Device-Proof, see signDeviceProof in ./crypto.ts).
+ */
+
+import { timingSafeEqual, randomInt } from 'crypto';
+import { NextRequest } from 'next/server';
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, devices, participants, publicKeys, type Device } from '@/db';
+import { publishToConversation } from './realtime';
+import { verifyDeviceProof } from './crypto';
+import type { RateLimit } from './ratelimit';
+
+export const DEVICE_HEADER = 'X-Device-Id';
+export const DEVICE_PROOF_HEADER = 'X-Device-Proof';
+
+/** How long a pending device's link code can be used */
+export const LINK_CODE_TTL_MS = 10 * 60_000;
+
+/** Attempts at a pending device's link code; after that it has to register again */
+export const LINK_CODE_RATE_LIMIT: RateLimit = { limit: 5, windowMs: LINK_CODE_TTL_MS };
+
+export type DeviceAction = 'link' | 'revoke' | 'key-bundle';
+
+export interface DeviceMismatch {
+  missingDevices: string[];   // Active devices without an envelope
+  extraDevices: string[];     // Envelopes for unknown or revoked devices
+}
+
+/**
+ * Resolve the caller's device from X-Device-Id; it must be an active device of `did`
+ */
+export async function requireDevice(
+  request: NextRequest,
+  did: string
+): Promise<{ device: Device } | { error: string; status: number }> {
+  const deviceId = request.headers.get(DEVICE_HEADER);
+  if (!deviceId) {
+    return { error: `${DEVICE_HEADER} header is required`, status: 400 };
+  }
+
+  const device = await db.query.devices.findFirst({
+    where: and(eq(devices.id, deviceId), eq(devices.did, did)),
+  });
+
+  if (!device || device.status !== 'active') {
+    return { error: 'Device not found or not active', status: 403 };
+  }
+
+  return { device };
+}
+
+/**
+ * What `device` signs to prove it's doing `action`: who acts, and on what
+ */
+export function deviceStatement(action: DeviceAction, device: Device, subject: Record<string, unknown>) {
+  return { action, did: device.did, deviceId: device.id, ...subject };
+}
+
+/**
+ * Check the X-Device-Proof header: `device`'s signature over `statement` by
+ * the identity key in its bundle. A device without a bundle yet can only
+ * prove it holds `uploadedIdentityKey` (on its first key upload).
+ */
+export async function requireDeviceProof(
+  request: NextRequest,
+  device: Device,
+  statement: Record<string, unknown>,
+  uploadedIdentityKey?: string
+): Promise<{ error: string; status: number } | null> {
+  const bundle = await db.query.publicKeys.findFirst({
+    where: eq(publicKeys.deviceId, device.id),
+  });
+
+  const identityKey = bundle?.identityKey ?? uploadedIdentityKey;
+  if (!identityKey) {
+    return { error: 'Upload this device\'s keys first', status: 403 };
+  }
+
+  if (!verifyDeviceProof(statement, request.headers.get(DEVICE_PROOF_HEADER), identityKey)) {
+    return { error: `${DEVICE_PROOF_HEADER} is missing or invalid`, status: 403 };
+  }
+
+  return null;
+}
+
+/**
+ * Active device IDs of the given DIDs
+ */
+export async function getActiveDeviceIds(dids: string[]): Promise<string[]> {
+  if (dids.length === 0) return [];
+
+  const rows = await db
+    .select({ id: devices.id })
+    .from(devices)
+    .where(and(inArray(devices.did, dids), eq(devices.status, 'active')));
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Check that per-device content has exactly one envelope for every active
+ * device of `dids` other than the sending device. Null when it matches.
+ */
+export async function checkDeviceFanOut(
+  content: Record<string, unknown>,
+  dids: string[],
+  senderDeviceId: string
+): Promise<DeviceMismatch | null> {
+  const envelopes = content.devices;
+  const provided = envelopes && typeof envelopes === 'object' && !Array.isArray(envelopes)
+    ? Object.keys(envelopes)
+    : [];
+
+  const expected = new Set((await getActiveDeviceIds(dids)).filter((id) => id !== senderDeviceId));
+
+  const missingDevices = Array.from(expected).filter((id) => !provided.includes(id));
+  const extraDevices = provided.filter((id) => !expected.has(id));
+
+  return missingDevices.length > 0 || extraDevices.length > 0
+    ? { missingDevices, extraDevices }
+    : null;
+}
+
+/**
+ * Random numeric code shown on a pending device and typed into an active one
+ */
+export function generateLinkCode(): string {
+  return randomInt(0, 100_000_000).toString().padStart(8, '0');
+}
+
+/**
+ * Constant-time link code comparison
+ */
+export function linkCodeMatches(expected: string | null, provided: unknown): boolean {
+  if (!expected || typeof provided !== 'string' || provided.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(provided));
+}
+
+/**
+ * devices.changed for every conversation `did` is in. Log them with the
+ * device change, then announce them once it's through.
+ */
+export async function deviceChangeEvents(did: string) {
+  const memberships = await db.query.participants.findMany({
+    where: eq(participants.did, did),
+  });
+
+  return memberships.map(({ conversationId }) => ({ type: 'devices.changed', conversationId, did }) as const);
+}
+
+/**
+ * Tell everyone sharing a conversation with `did` to refresh its device list
+ */
+export async function announceDeviceChange(events: Awaited<ReturnType<typeof deviceChangeEvents>>): Promise<void> {
+  for (const event of events) {
+    await publishToConversation(event.conversationId, event);
+  }
+}
+
+/**
+ * Device as shown to its owner (no link secrets)
+ */
+export function toDeviceView(device: Device) {
+  return {
+    id: device.id,
+    name: device.name,
+    status: device.status,
+    linkedBy: device.linkedBy,
+    recovered: device.recovered,
+    createdAt: device.createdAt,
+    approvedAt: device.approvedAt,
+    revokedAt: device.revokedAt,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Server-side key bundle bookkeeping
+ *
+ * Bundles are public and the server can't check them beyond their signatures,
+ * but it can make sure changes are visible: a new identity key is recorded and
+ * announced to everyone who shares a conversation with its owner, and safety
+ * number verifications involving it are reset. One-time pre-keys are handed
+ * out at most once.
+ */
+
+import { eq, and, or, asc, desc, count, inArray } from 'drizzle-orm';
+import { db, devices, participants, publicKeys, preKeys, keyChanges, keyLog, keyVerifications } from '@/db';
+import { generateId } from './utils';
+import { computeSafetyNumber } from './crypto';
+import { postSystemMessage } from './messaging';
+import { publishToConversation, publishToUser } from './realtime';
+import { logChange, wroteRows } from './changes';
+import type { RateLimit } from './ratelimit';
+
+/** Below this many one-time pre-keys the owner is asked to upload more */
+export const PRE_KEY_LOW_WATERMARK = 10;
+
+/** Key lookups that claim one-time pre-keys, per caller */
+export const PRE_KEY_CLAIM_RATE_LIMIT: RateLimit = { limit: 60, windowMs: 60 * 60 * 1000 };
+
+/**
+ * Number of one-time pre-keys a device has left
+ */
+export async function countPreKeys(deviceId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(preKeys)
+    .where(eq(preKeys.deviceId, deviceId));
+  return row?.count ?? 0;
+}
+
+/**
+ * Claim the oldest one-time pre-key of a device, or null if none are left.
+ * The row is deleted in the same statement, so concurrent fetchers never get
+ * the same key. Warns the owner when the device drops below the watermark.
+ */
+export async function claimPreKey(did: string, deviceId: string): Promise<{ id: string; key: string } | null> {
+  const oldest = db
+    .select({ id: preKeys.id })
+    .from(preKeys)
+    .where(eq(preKeys.deviceId, deviceId))
+    .orderBy(asc(preKeys.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [claimed] = await db
+    .delete(preKeys)
+    .where(inArray(preKeys.id, oldest))
+    .returning({ id: preKeys.id, key: preKeys.key });
+
+  if (!claimed) return null;
+
+  const remaining = await countPreKeys(deviceId);
+  if (remaining < PRE_KEY_LOW_WATERMARK) {
+    // Only the claim that crosses the watermark sets the flag, so the owner is
+    // warned once per top-up rather than on every claim below it
+    const event = { type: 'pre-keys.low', deviceId, remaining, watermark: PRE_KEY_LOW_WATERMARK } as const;
+    const [[crossed]] = await db.batch([
+      db
+        .update(publicKeys)
+        .set({ preKeysLow: true })
+        .where(and(eq(publicKeys.deviceId, deviceId), eq(publicKeys.preKeysLow, false)))
+        .returning({ deviceId: publicKeys.deviceId }),
+      logChange(event, { did }, wroteRows(publicKeys, eq(publicKeys.deviceId, deviceId))),
+    ]);
+
+    if (crossed) {
+      await publishToUser(did, event);
+    }
+  }
+
+  return claimed;
+}
+
+/**
+ * Warn again next time a device drops below the watermark, once it's back at
+ * or above it
+ */
+export async function rearmPreKeyWarning(deviceId: string): Promise<void> {
+  if (await countPreKeys(deviceId) < PRE_KEY_LOW_WATERMARK) return;
+
+  await db
+    .update(publicKeys)
+    .set({ preKeysLow: false })
+    .where(and(eq(publicKeys.deviceId, deviceId), eq(publicKeys.preKeysLow, true)));
+}
+
+/**
+ * Identity keys of the active devices of `did`
+ */
+export async function getIdentityKeys(did: string): Promise<string[]> {
+  const rows = await db
+    .select({ identityKey: publicKeys.identityKey })
+    .from(publicKeys)
+    .innerJoin(devices, eq(devices.id, publicKeys.deviceId))
+    .where(and(eq(publicKeys.did, did), eq(devices.status, 'active')));
+  return rows.map((row) => row.identityKey);
+}
+
+/**
+ * Identity key `did` last published, from any device - including revoked
+ * ones, whose bundles are gone but still in the key log
+ */
+export async function getLastIdentityKey(did: string): Promise<string | null> {
+  const [last] = await db
+    .select({ identityKey: keyLog.identityKey })
+    .from(keyLog)
+    .where(eq(keyLog.did, did))
+    .orderBy(desc(keyLog.position))
+    .limit(1);
+  return last?.identityKey ?? null;
+}
+
+/**
+ * Current safety number between two DIDs, or null if either has no keys
+ */
+export async function getSafetyNumber(did: string, contactDid: string): Promise<string | null> {
+  const [mine, theirs] = await Promise.all([getIdentityKeys(did), getIdentityKeys(contactDid)]);
+  if (mine.length === 0 || theirs.length === 0) return null;
+  return computeSafetyNumber(did, mine, contactDid, theirs);
+}
+
+/**
+ * Record that a device of `did` replaced its identity key and tell its
+ * conversations. One-time pre-keys made for the old identity are dropped and
+ * verifications in either direction no longer hold.
+ */
+export async function recordIdentityKeyChange(
+  did: string,
+  deviceId: string,
+  previousIdentityKey: string,
+  identityKey: string
+): Promise<void> {
+  const memberships = await db.query.participants.findMany({
+    where: eq(participants.did, did),
+  });
+  const events = memberships.map(({ conversationId }) => (
+    { type: 'identity-key.changed', conversationId, did, deviceId, identityKey } as const
+  ));
+
+  await db.batch([
+    db.insert(keyChanges).values({
+      id: generateId('kc'),
+      did,
+      deviceId,
+      previousIdentityKey,
+      identityKey,
+    }),
+    db.delete(preKeys).where(eq(preKeys.deviceId, deviceId)),
+    db
+      .delete(keyVerifications)
+      .where(or(eq(keyVerifications.did, did), eq(keyVerifications.contactDid, did))),
+    ...events.map((event) => logChange(event, { conversationId: event.conversationId })),
+  ]);
+
+  for (const event of events) {
+    await publishToConversation(event.conversationId, event);
+    await postSystemMessage(event.conversationId, did, `${did}'s safety number changed`);
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { concatBytes } from '@noble/hashes/utils';
+import { keyToHex, hexToKey } from './crypto';
+import {
+  merkleRoot,
+  inclusionProof,
+  consistencyProof,
+  verifyInclusion,
+  verifyConsistency,
+  verifyTreeHead,
+  treeHeadSignatureInput,
+  rootFromSubtrees,
+  inclusionProofFromSubtrees,
+  consistencyProofFromSubtrees,
+  hashChildren,
+  type SubtreeLookup,
+} from './merkle';
+
+// Test vectors from RFC 6962's reference implementation (certificate-transparency),
+// also used for RFC 9162: leaves are raw bytes, hashed as SHA-256(0x00 || data)
+const LEAF_DATA = [
+  '',
+  '00',
+  '10',
+  '2021',
+  '3031',
+  '40414243',
+  '5051525354555657',
+  '606162636465666768696a6b6c6d6e6f',
+];
+
+const LEAVES = LEAF_DATA.map((data) => keyToHex(sha256(concatBytes(new Uint8Array([0x00]), hexToKey(data)))));
+
+const ROOTS = [
+  '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+  'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+  'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+  'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+  '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+  '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+  'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+  '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328',
+];
+
+const INCLUSION_PROOFS: Array<{ index: number; size: number; proof: string[] }> = [
+  { index: 0, size: 1, proof: [] },
+  {
+    index: 0,
+    size: 8,
+    proof: [
+      '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4',
+    ],
+  },
+  {
+    index: 5,
+    size: 8,
+    proof: [
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+      'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    ],
+  },
+  {
+    index: 2,
+    size: 3,
+    proof: ['fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125'],
+  },
+  {
+    index: 1,
+    size: 5,
+    proof: [
+      '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    ],
+  },
+];
+
+const CONSISTENCY_PROOFS: Array<{ since: number; size: number; proof: string[] }> = [
+  { since: 1, size: 1, proof: [] },
+  {
+    since: 1,
+    size: 8,
+    proof: [
+      '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4',
+    ],
+  },
+  {
+    since: 6,
+    size: 8,
+    proof: [
+      '0ebc5d3437fbe2db158b9f126a1d118e308181031d0a949f8dededebc558ef6a',
+      'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    ],
+  },
+  {
+    since: 2,
+    size: 5,
+    proof: [
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    ],
+  },
+];
+
+/** Complete subtrees precomputed level by level, the way the key log stores them */
+function storedSubtrees(leaves: string[]): SubtreeLookup {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const below = levels[levels.length - 1];
+    const level: string[] = [];
+    for (let i = 0; i + 1 < below.length; i += 2) {
+      level.push(hashChildren(below[i], below[i + 1]));
+    }
+    levels.push(level);
+  }
+  return (level, index) => {
+    const hash = levels[level]?.[index];
+    if (!hash) throw new Error(`No complete subtree at ${level}/${index}`);
+    return hash;
+  };
+}
+
+describe('Merkle tree (RFC 9162 test vectors)', () => {
+  it('hashes the empty tree', () => {
+    expect(merkleRoot([])).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it.each(ROOTS.map((root, i) => [i + 1, root] as const))('computes the root of %i leaves', (size, root) => {
+    expect(merkleRoot(LEAVES.slice(0, size))).toBe(root);
+    expect(rootFromSubtrees(storedSubtrees(LEAVES.slice(0, size)), size)).toBe(root);
+  });
+
+  it.each(INCLUSION_PROOFS)('proves leaf $index in a tree of $size', ({ index, size, proof }) => {
+    const leaves = LEAVES.slice(0, size);
+
+    expect(inclusionProof(leaves, index)).toEqual(proof);
+    expect(inclusionProofFromSubtrees(storedSubtrees(leaves), size, index)).toEqual(proof);
+    expect(verifyInclusion(LEAVES[index], index, size, proof, ROOTS[size - 1])).toBe(true);
+  });
+
+  it.each(CONSISTENCY_PROOFS)('proves the tree of $since is a prefix of $size', ({ since, size, proof }) => {
+    const leaves = LEAVES.slice(0, size);
+
+    expect(consistencyProof(leaves, since)).toEqual(proof);
+    expect(consistencyProofFromSubtrees(storedSubtrees(leaves), size, since)).toEqual(proof);
+    expect(verifyConsistency(since, size, ROOTS[since - 1], ROOTS[size - 1], proof)).toBe(true);
+  });
+
+  it('verifies every inclusion and consistency proof up to 8 leaves', () => {
+    for (let size = 1; size <= LEAVES.length; size++) {
+      const leaves = LEAVES.slice(0, size);
+      for (let index = 0; index < size; index++) {
+        expect(verifyInclusion(LEAVES[index], index, size, inclusionProof(leaves, index), ROOTS[size - 1])).toBe(true);
+      }
+      for (let since = 1; since <= size; since++) {
+        const proof = consistencyProof(leaves, since);
+        expect(verifyConsistency(since, size, ROOTS[since - 1], ROOTS[size - 1], proof)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects proofs against the wrong leaf, index or root', () => {
+    const proof = inclusionProof(LEAVES, 5);
+
+    expect(verifyInclusion(LEAVES[4], 5, 8, proof, ROOTS[7])).toBe(false);
+    expect(verifyInclusion(LEAVES[5], 4, 8, proof, ROOTS[7])).toBe(false);
+    expect(verifyInclusion(LEAVES[5], 5, 8, proof, ROOTS[6])).toBe(false);
+    expect(verifyInclusion(LEAVES[5], 5, 8, proof.slice(1), ROOTS[7])).toBe(false);
+  });
+
+  it('rejects a consistency proof for a rewritten history', () => {
+    const proof = consistencyProof(LEAVES, 6);
+    const rewritten = merkleRoot([...LEAVES.slice(0, 5), LEAVES[7]]);
+
+    expect(verifyConsistency(6, 8, rewritten, ROOTS[7], proof)).toBe(false);
+    expect(verifyConsistency(6, 8, ROOTS[5], ROOTS[7], proof.slice(1))).toBe(false);
+    expect(verifyConsistency(8, 6, ROOTS[7], ROOTS[5], proof)).toBe(false);
+  });
+});
+
+describe('signed tree heads', () => {
+  const logKey = ed25519.utils.randomPrivateKey();
+  const logPublicKey = keyToHex(ed25519.getPublicKey(logKey));
+  const unsigned = { treeSize: 8, timestamp: 1_700_000_000_000, rootHash: ROOTS[7] };
+  const head = { ...unsigned, signature: keyToHex(ed25519.sign(treeHeadSignatureInput(unsigned), logKey)) };
+
+  it('signs the TLS-encoded TreeHeadSignature', () => {
+    expect(keyToHex(treeHeadSignatureInput(unsigned))).toBe(
+      '0000018bcfe56800' + '0000000000000008' + '20' + ROOTS[7] + '0000'
+    );
+  });
+
+  it('accepts a head signed by the log and nothing else', () => {
+    expect(verifyTreeHead(head, logPublicKey)).toBe(true);
+    expect(verifyTreeHead({ ...head, treeSize: 7 }, logPublicKey)).toBe(false);
+    expect(verifyTreeHead({ ...head, rootHash: ROOTS[6] }, logPublicKey)).toBe(false);
+    expect(verifyTreeHead({ ...head, timestamp: head.timestamp + 1 }, logPublicKey)).toBe(false);
+    expect(verifyTreeHead(head, keyToHex(ed25519.getPublicKey(ed25519.utils.randomPrivateKey())))).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Merkle tree hashing, inclusion and consistency proofs (RFC 9162, section 2.1)
+ * and signed tree heads (section 4.10)
+ *
+ * Pure functions shared by the key transparency log (./transparency.ts) and
+ * clients checking its proofs. Hashes are SHA-256, hex-encoded.
+ *
+ * Every root and proof is built from complete subtrees (2^level leaves,
+ * aligned to their size), so a log that stores those as it grows can serve
+ * them without rehashing its leaves: see the ...FromSubtrees variants.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { concatBytes } from '@noble/hashes/utils';
+import { keyToHex, hexToKey } from './crypto';
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+/**
+ * Hash of a leaf's serialized data
+ */
+export function hashLeaf(data: string): string {
+  return keyToHex(sha256(concatBytes(LEAF_PREFIX, new TextEncoder().encode(data))));
+}
+
+/**
+ * Hash of an inner node
+ */
+export function hashChildren(left: string, right: string): string {
+  return keyToHex(sha256(concatBytes(NODE_PREFIX, hexToKey(left), hexToKey(right))));
+}
+
+/**
+ * Hash of the complete subtree of 2^level leaves starting at leaf
+ * index * 2^level (level 0 is the leaf hash itself)
+ */
+export type SubtreeLookup = (level: number, index: number) => string;
+
+/** Largest power of two smaller than n (n > 1) */
+function split(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/** Root over `size` leaves from `start`, which is aligned to split(size) */
+function rangeRoot(subtree: SubtreeLookup, start: number, size: number): string {
+  if ((size & (size - 1)) === 0) {
+    return subtree(31 - Math.clz32(size), start / size);
+  }
+
+  const k = split(size);
+  return hashChildren(rangeRoot(subtree, start, k), rangeRoot(subtree, start + k, size - k));
+}
+
+function auditPath(subtree: SubtreeLookup, index: number, start: number, size: number): string[] {
+  if (size <= 1) return [];
+
+  const k = split(size);
+  return index < k
+    ? [...auditPath(subtree, index, start, k), rangeRoot(subtree, start + k, size - k)]
+    : [...auditPath(subtree, index - k, start + k, size - k), rangeRoot(subtree, start, k)];
+}
+
+function subproof(subtree: SubtreeLookup, m: number, start: number, size: number, complete: boolean): string[] {
+  if (m === size) return complete ? [] : [rangeRoot(subtree, start, size)];
+
+  const k = split(size);
+  return m <= k
+    ? [...subproof(subtree, m, start, k, complete), rangeRoot(subtree, start + k, size - k)]
+    : [...subproof(subtree, m - k, start + k, size - k, false), rangeRoot(subtree, start, k)];
+}
+
+/**
+ * Root hash of a tree of `treeSize` leaves
+ */
+export function rootFromSubtrees(subtree: SubtreeLookup, treeSize: number): string {
+  if (treeSize === 0) return keyToHex(sha256(new Uint8Array()));
+  return rangeRoot(subtree, 0, treeSize);
+}
+
+/**
+ * Audit path proving leaf `index` is in a tree of `treeSize` leaves
+ */
+export function inclusionProofFromSubtrees(subtree: SubtreeLookup, treeSize: number, index: number): string[] {
+  return auditPath(subtree, index, 0, treeSize);
+}
+
+/**
+ * Proof that the tree of the first `size` leaves is a prefix of a tree of `treeSize` leaves
+ */
+export function consistencyProofFromSubtrees(subtree: SubtreeLookup, treeSize: number, size: number): string[] {
+  if (size <= 0 || size >= treeSize) return [];
+  return subproof(subtree, size, 0, treeSize, true);
+}
+
+/** Subtrees hashed on demand from all the leaves */
+function fromLeaves(leaves: string[]): SubtreeLookup {
+  const subtree: SubtreeLookup = (level, index) =>
+    level === 0
+      ? leaves[index]
+      : hashChildren(subtree(level - 1, index * 2), subtree(level - 1, index * 2 + 1));
+  return subtree;
+}
+
+/**
+ * Root hash over leaf hashes
+ */
+export function merkleRoot(leaves: string[]): string {
+  return rootFromSubtrees(fromLeaves(leaves), leaves.length);
+}
+
+/**
+ * Audit path proving leaf `index` is in the tree over `leaves`
+ */
+export function inclusionProof(leaves: string[], index: number): string[] {
+  return inclusionProofFromSubtrees(fromLeaves(leaves), leaves.length, index);
+}
+
+/**
+ * Proof that the tree of the first `size` leaves is a prefix of the tree over `leaves`
+ */
+export function consistencyProof(leaves: string[], size: number): string[] {
+  return consistencyProofFromSubtrees(fromLeaves(leaves), leaves.length, size);
+}
+
+/**
+ * Check an audit path from inclusionProof
+ */
+export function verifyInclusion(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): boolean {
+  if (index < 0 || index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let hash = leafHash;
+
+  for (const sibling of proof) {
+    if (sn === 0) return false;
+
+    if (fn % 2 === 1 || fn === sn) {
+      hash = hashChildren(sibling, hash);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      hash = hashChildren(hash, sibling);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && hash === rootHash;
+}
+
+/**
+ * Check a consistency proof between two tree heads - fails if the log
+ * rewrote history between them
+ */
+export function verifyConsistency(
+  firstSize: number,
+  secondSize: number,
+  firstRoot: string,
+  secondRoot: string,
+  proof: string[]
+): boolean {
+  if (firstSize > secondSize) return false;
+  if (firstSize === 0) return true;
+  if (firstSize === secondSize) return proof.length === 0 && firstRoot === secondRoot;
+  if (proof.length === 0) return false;
+
+  const path = (firstSize & (firstSize - 1)) === 0 ? [firstRoot, ...proof] : proof;
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+
+  for (const node of path.slice(1)) {
+    if (sn === 0) return false;
+
+    if (fn % 2 === 1 || fn === sn) {
+      fr = hashChildren(node, fr);
+      sr = hashChildren(node, sr);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      sr = hashChildren(sr, node);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return fr === firstRoot && sr === secondRoot && sn === 0;
+}
+
+/**
+ * Tree head signed by the log
+ */
+export interface SignedTreeHead {
+  treeSize: number;
+  timestamp: number;      // Milliseconds since the epoch
+  rootHash: string;
+  signature: string;      // Ed25519 over treeHeadSignatureInput(), hex
+}
+
+/**
+ * What a tree head's signature covers: the TreeHeadSignature structure
+ * (timestamp, tree size, root hash, no extensions) in TLS encoding
+ */
+export function treeHeadSignatureInput(head: Omit<SignedTreeHead, 'signature'>): Uint8Array {
+  const rootHash = hexToKey(head.rootHash);
+  const input = new Uint8Array(8 + 8 + 1 + rootHash.length + 2);
+  const view = new DataView(input.buffer);
+
+  view.setBigUint64(0, BigInt(head.timestamp));
+  view.setBigUint64(8, BigInt(head.treeSize));
+  input[16] = rootHash.length;
+  input.set(rootHash, 17);
+  // Empty extensions: the two length bytes stay zero
+  return input;
+}
+
+/**
+ * Check a tree head's signature against the log's Ed25519 public key
+ */
+export function verifyTreeHead(head: SignedTreeHead, logPublicKey: string): boolean {
+  try {
+    return ed25519.verify(hexToKey(head.signature), treeHeadSignatureInput(head), hexToKey(logPublicKey));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+import { db, messages, type Message } from '@/db';
+import { generateId } from './utils';
+import { publishMessage } from './realtime';
+import { logChange } from './changes';
+import { verifyMessageSignature, isHexKey } from './crypto';
+import type { Identity } from './auth';
+
+async function postServerMessage(
+  conversationId: string,
+  fromDid: string,
+  content: Record<string, unknown>,
+  contentType: string
+) {
+  const id = generateId('msg');
+  const [[message]] = await db.batch([
+    db.insert(messages).values({ id, conversationId, fromDid, content, contentType }).returning(),
+    logChange({ type: 'message', id }, { conversationId }),
+  ]);
+
+  await publishMessage(message);
+  return message;
+}
+
+/**
+ * Insert a system message and push it to connected participants
+ */
+export async function postSystemMessage(conversationId: string, fromDid: string, text: string) {
+  return postServerMessage(conversationId, fromDid, { type: 'system', text }, 'system');
+}
+
+/**
+ * Announce that `fromDid` extended trust to `toDid` in a group
+ */
+export async function postTrustExtendedMessage(conversationId: string, fromDid: string, toDid: string) {
+  return postServerMessage(
+    conversationId,
+    fromDid,
+    { type: 'trust-extended', did: toDid, text: `${fromDid} extended trust to ${toDid}` },
+    'trust-extended'
+  );
+}
+
+export type MessageTombstone = ReturnType<typeof toTombstone>;
+
+/**
+ * Strip a deleted message down to what clients need to remove it locally
+ */
+export function toTombstone(message: Message) {
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    fromDid: message.fromDid,
+    clientMessageId: message.clientMessageId,
+    contentType: message.contentType,
+    content: null,
+    replyTo: message.replyTo,
+    createdAt: message.createdAt,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+    deleted: true as const,
+  };
+}
+
+/**
+ * Signatures are optional, but one that is present must verify against the
+ * sender's DID key - otherwise recipients would be shown a forged "signed" message
+ */
+export function hasValidSignature(
+  conversationId: string,
+  identity: Identity,
+  content: Record<string, unknown>
+): boolean {
+  if (content.signature === undefined) return true;
+  return verifyMessageSignature(conversationId, identity.id, content, identity.publicKey);
+}
+
+/**
+ * Franking commitment (content.commitment) to keep with a new message: null
+ * without one, undefined if it's malformed
+ */
+export function getCommitment(content: Record<string, unknown>): string | null | undefined {
+  if (content.commitment === undefined) return null;
+  return isHexKey(content.commitment) ? content.commitment.toLowerCase() : undefined;
+}
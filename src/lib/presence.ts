@@ -0,0 +1,218 @@
+/**
+ * Presence
+ *
+ * Each instance counts the sockets it holds per DID and keeps a lease for
+ * every DID it holds any for, refreshed every PRESENCE_REFRESH_MS. A DID is
+ * online while any instance's lease is live; `onlineUntil` caches the latest
+ * one. Instances only clear their own lease, so a DID goes offline when its
+ * last socket anywhere closes, or once the lease of a crashed instance runs
+ * out.
+ */
+
+import { eq, and, gt, lt, inArray, max } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db, blocks, participants, presence, presenceLeases, type Presence } from '@/db';
+import { generateId } from './utils';
+import { publishToConversation } from './realtime';
+
+export const PRESENCE_LEASE_MS = 90_000;
+export const PRESENCE_REFRESH_MS = 30_000;
+
+export const PRESENCE_VISIBILITIES = ['everyone', 'shared', 'nobody'] as const;
+export type PresenceVisibility = (typeof PRESENCE_VISIBILITIES)[number];
+
+export interface PresenceView {
+  did: string;
+  status: 'online' | 'offline';
+  lastSeen: Date | null;
+}
+
+const connections = new Map<string, number>();
+
+/** Identifies this process's leases */
+const INSTANCE_ID = generateId('inst');
+
+/**
+ * Public view of a presence row
+ */
+export function toPresenceView(row: Presence, now = new Date()): PresenceView {
+  const online = !!row.onlineUntil && row.onlineUntil > now;
+  return {
+    did: row.did,
+    status: online ? 'online' : 'offline',
+    lastSeen: online ? now : row.lastSeenAt,
+  };
+}
+
+async function upsertPresence(did: string, values: Partial<typeof presence.$inferInsert>): Promise<Presence> {
+  const [row] = await db
+    .insert(presence)
+    .values({ did, ...values })
+    .onConflictDoUpdate({
+      target: presence.did,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+  return row;
+}
+
+async function broadcastPresence(row: Presence): Promise<void> {
+  if (row.visibility === 'nobody') return;
+
+  const memberships = await db
+    .select({ conversationId: participants.conversationId })
+    .from(participants)
+    .where(eq(participants.did, row.did));
+
+  const view = toPresenceView(row);
+  for (const { conversationId } of memberships) {
+    await publishToConversation(conversationId, {
+      type: 'presence',
+      did: view.did,
+      status: view.status,
+      lastSeen: view.lastSeen?.toISOString() ?? null,
+    });
+  }
+}
+
+/**
+ * Latest live lease of a DID, or null if no instance holds a socket for it
+ */
+async function latestLease(did: string, now: Date): Promise<Date | null> {
+  const [row] = await db
+    .select({ expiresAt: max(presenceLeases.expiresAt) })
+    .from(presenceLeases)
+    .where(and(eq(presenceLeases.did, did), gt(presenceLeases.expiresAt, now)));
+  return row?.expiresAt ?? null;
+}
+
+/**
+ * Record a new socket for a DID; announces `online` on the first one across
+ * all instances
+ */
+export async function connectPresence(did: string): Promise<void> {
+  const count = (connections.get(did) ?? 0) + 1;
+  connections.set(did, count);
+  if (count > 1) return;
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + PRESENCE_LEASE_MS);
+  const wasOnline = (await latestLease(did, now)) !== null;
+
+  await db
+    .insert(presenceLeases)
+    .values({ did, instanceId: INSTANCE_ID, expiresAt })
+    .onConflictDoUpdate({
+      target: [presenceLeases.did, presenceLeases.instanceId],
+      set: { expiresAt },
+    });
+
+  const row = await upsertPresence(did, { lastSeenAt: now, onlineUntil: expiresAt });
+  if (!wasOnline) {
+    await broadcastPresence(row);
+  }
+}
+
+/**
+ * Drop a socket for a DID; once this instance has none left its lease goes,
+ * and `offline` is announced if no other instance holds one
+ */
+export async function disconnectPresence(did: string): Promise<void> {
+  const count = (connections.get(did) ?? 0) - 1;
+  if (count > 0) {
+    connections.set(did, count);
+    return;
+  }
+  connections.delete(did);
+
+  await db
+    .delete(presenceLeases)
+    .where(and(eq(presenceLeases.did, did), eq(presenceLeases.instanceId, INSTANCE_ID)));
+
+  const now = new Date();
+  const onlineUntil = await latestLease(did, now);
+  const row = await upsertPresence(did, { lastSeenAt: now, onlineUntil: onlineUntil ?? now });
+  if (!onlineUntil) {
+    await broadcastPresence(row);
+  }
+}
+
+/**
+ * Periodically extend this instance's leases, and drop the expired leases of
+ * instances that went away
+ */
+export function startPresenceRefresh(): () => void {
+  const timer = setInterval(async () => {
+    const dids = Array.from(connections.keys());
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PRESENCE_LEASE_MS);
+
+    try {
+      await db.delete(presenceLeases).where(lt(presenceLeases.expiresAt, now));
+      if (dids.length === 0) return;
+
+      // Leases dropped by a disconnect since `dids` was read stay dropped
+      const held = await db
+        .update(presenceLeases)
+        .set({ expiresAt })
+        .where(and(eq(presenceLeases.instanceId, INSTANCE_ID), inArray(presenceLeases.did, dids)))
+        .returning({ did: presenceLeases.did });
+      if (held.length === 0) return;
+
+      await db
+        .update(presence)
+        .set({ lastSeenAt: now, onlineUntil: expiresAt, updatedAt: now })
+        .where(inArray(presence.did, held.map((lease) => lease.did)));
+    } catch (error) {
+      console.error('Failed to refresh presence:', error);
+    }
+  }, PRESENCE_REFRESH_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Presence of `dids` as seen by `viewerDid`, honoring each DID's visibility:
+ * 'everyone' is visible to any caller, 'shared' only to DIDs sharing a
+ * conversation, 'nobody' to no one but themselves. DIDs that blocked the
+ * viewer are never visible.
+ */
+export async function getVisiblePresence(viewerDid: string, dids: string[]): Promise<PresenceView[]> {
+  if (dids.length === 0) return [];
+
+  const mine = alias(participants, 'mine');
+  const shared = await db
+    .selectDistinct({ did: participants.did })
+    .from(participants)
+    .innerJoin(mine, eq(mine.conversationId, participants.conversationId))
+    .where(and(eq(mine.did, viewerDid), inArray(participants.did, dids)));
+  const sharedDids = new Set(shared.map((row) => row.did));
+
+  const blockers = await db
+    .select({ did: blocks.did })
+    .from(blocks)
+    .where(and(eq(blocks.blockedDid, viewerDid), inArray(blocks.did, dids)));
+  const blockerDids = new Set(blockers.map((row) => row.did));
+
+  const rows = await db.query.presence.findMany({
+    where: inArray(presence.did, dids),
+  });
+
+  const now = new Date();
+  return rows
+    .filter((row) => {
+      if (row.did === viewerDid) return true;
+      if (blockerDids.has(row.did)) return false;
+      if (row.visibility === 'everyone') return true;
+      if (row.visibility === 'shared') return sharedDids.has(row.did);
+      return false;
+    })
+    .map((row) => toPresenceView(row, now));
+}
+
+/**
+ * Update a DID's presence visibility
+ */
+export async function setPresenceVisibility(did: string, visibility: PresenceVisibility): Promise<Presence> {
+  return upsertPresence(did, { visibility });
+}
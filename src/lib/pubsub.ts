@@ -0,0 +1,92 @@
+/**
+ * Pub/sub fan-out between chat instances
+ *
+ * Each instance only holds its own sockets, so real-time events go through a
+ * shared bus: Redis when REDIS_URL is set, otherwise an in-process bus (single
+ * instance deployments, dev and tests).
+ */
+
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+export type PubSubHandler = (payload: string) => void;
+
+export interface PubSub {
+  publish(channel: string, payload: string): Promise<void>;
+  subscribe(channel: string, handler: PubSubHandler): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process bus - no external service, delivers synchronously.
+ * Pass the same emitter to several buses to simulate multiple instances.
+ */
+export function createMemoryPubSub(bus: EventEmitter = new EventEmitter()): PubSub {
+  const listeners = new Map<string, PubSubHandler>();
+  bus.setMaxListeners(0);
+
+  return {
+    async publish(channel, payload) {
+      bus.emit(channel, payload);
+    },
+    async subscribe(channel, handler) {
+      const previous = listeners.get(channel);
+      if (previous) bus.off(channel, previous);
+      listeners.set(channel, handler);
+      bus.on(channel, handler);
+    },
+    async unsubscribe(channel) {
+      const listener = listeners.get(channel);
+      if (listener) bus.off(channel, listener);
+      listeners.delete(channel);
+    },
+    async close() {
+      listeners.forEach((listener, channel) => bus.off(channel, listener));
+      listeners.clear();
+    },
+  };
+}
+
+/**
+ * Redis-compatible bus (Redis, Valkey, KeyDB, ...)
+ * Uses a dedicated connection for subscriptions as required by the protocol.
+ */
+export function createRedisPubSub(url: string): PubSub {
+  const publisher = new Redis(url, { lazyConnect: false });
+  const subscriber = new Redis(url, { lazyConnect: false });
+  const handlers = new Map<string, PubSubHandler>();
+
+  publisher.on('error', (error) => console.error('Redis publisher error:', error));
+  subscriber.on('error', (error) => console.error('Redis subscriber error:', error));
+
+  subscriber.on('message', (channel: string, payload: string) => {
+    handlers.get(channel)?.(payload);
+  });
+
+  return {
+    async publish(channel, payload) {
+      await publisher.publish(channel, payload);
+    },
+    async subscribe(channel, handler) {
+      handlers.set(channel, handler);
+      await subscriber.subscribe(channel);
+    },
+    async unsubscribe(channel) {
+      handlers.delete(channel);
+      await subscriber.unsubscribe(channel);
+    },
+    async close() {
+      handlers.clear();
+      await Promise.all([publisher.quit(), subscriber.quit()]);
+    },
+  };
+}
+
+/**
+ * Pick the bus from configuration
+ */
+export function createPubSub(): PubSub {
+  const url = process.env.REDIS_URL;
+  return url ? createRedisPubSub(url) : createMemoryPubSub();
+}
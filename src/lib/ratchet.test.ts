@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair, keyToHex, x3dhInitiate, x3dhRespond } from './crypto';
+import {
+  MAX_SKIP,
+  initSenderSession,
+  initReceiverSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeSession,
+  deserializeSession,
+  type RatchetSession,
+} from './ratchet';
+
+function startSessions(): { alice: RatchetSession; bob: RatchetSession } {
+  const aliceIdentity = generateKeyPair();
+  const bobIdentity = generateKeyPair();
+  const bobSignedPreKey = generateKeyPair();
+
+  const initiated = x3dhInitiate(aliceIdentity, {
+    did: 'did:imajin:bob',
+    identityKey: keyToHex(bobIdentity.publicKey),
+    signedPreKey: keyToHex(bobSignedPreKey.publicKey),
+    signature: '',
+    oneTimePreKey: null,
+  });
+  const responded = x3dhRespond(bobIdentity, bobSignedPreKey, null, initiated.header);
+
+  return {
+    alice: initSenderSession(initiated.sharedSecret, initiated.associatedData, bobSignedPreKey.publicKey),
+    bob: initReceiverSession(responded.sharedSecret, responded.associatedData, bobSignedPreKey),
+  };
+}
+
+describe('Double Ratchet', () => {
+  it('exchanges messages in both directions', () => {
+    const { alice, bob } = startSessions();
+
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'hi bob'))).toBe('hi bob');
+    expect(ratchetDecrypt(alice, ratchetEncrypt(bob, 'hi alice'))).toBe('hi alice');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'how are you'))).toBe('how are you');
+  });
+
+  it('decrypts messages delivered out of order within a chain', () => {
+    const { alice, bob } = startSessions();
+    const sent = ['one', 'two', 'three'].map((text) => ratchetEncrypt(alice, text));
+
+    expect(ratchetDecrypt(bob, sent[2])).toBe('three');
+    expect(ratchetDecrypt(bob, sent[0])).toBe('one');
+    expect(ratchetDecrypt(bob, sent[1])).toBe('two');
+    expect(bob.skipped.size).toBe(0);
+  });
+
+  it('decrypts a late message from a chain replaced by a DH step', () => {
+    const { alice, bob } = startSessions();
+    const late = ratchetEncrypt(alice, 'late');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'first'))).toBe('first');
+
+    expect(ratchetDecrypt(alice, ratchetEncrypt(bob, 'reply'))).toBe('reply');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'new chain'))).toBe('new chain');
+
+    expect(ratchetDecrypt(bob, late)).toBe('late');
+  });
+
+  it('rejects a replayed message without disturbing the session', () => {
+    const { alice, bob } = startSessions();
+    const message = ratchetEncrypt(alice, 'once');
+    expect(ratchetDecrypt(bob, message)).toBe('once');
+
+    const before = serializeSession(bob);
+    expect(() => ratchetDecrypt(bob, message)).toThrow();
+    expect(serializeSession(bob)).toEqual(before);
+
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'twice'))).toBe('twice');
+  });
+
+  it('rejects a replayed out-of-order message once its skipped key was used', () => {
+    const { alice, bob } = startSessions();
+    const first = ratchetEncrypt(alice, 'first');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'second'))).toBe('second');
+
+    expect(ratchetDecrypt(bob, first)).toBe('first');
+    expect(() => ratchetDecrypt(bob, first)).toThrow();
+  });
+
+  it('rejects a replay from a previous chain', () => {
+    const { alice, bob } = startSessions();
+    const old = ratchetEncrypt(alice, 'old');
+    expect(ratchetDecrypt(bob, old)).toBe('old');
+    expect(ratchetDecrypt(alice, ratchetEncrypt(bob, 'reply'))).toBe('reply');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'new chain'))).toBe('new chain');
+
+    const before = serializeSession(bob);
+    expect(() => ratchetDecrypt(bob, old)).toThrow();
+    expect(serializeSession(bob)).toEqual(before);
+  });
+
+  it('leaves the session untouched when a message was tampered with', () => {
+    const { alice, bob } = startSessions();
+    const message = ratchetEncrypt(alice, 'hello');
+    const tampered = { ...message, ratchet: { ...message.ratchet, n: message.ratchet.n + 1 } };
+
+    expect(() => ratchetDecrypt(bob, tampered)).toThrow();
+    expect(ratchetDecrypt(bob, message)).toBe('hello');
+  });
+
+  it('refuses to skip more than MAX_SKIP messages', () => {
+    const { alice, bob } = startSessions();
+    const message = ratchetEncrypt(alice, 'far ahead');
+    const ahead = { ...message, ratchet: { ...message.ratchet, n: MAX_SKIP + 1 } };
+
+    expect(() => ratchetDecrypt(bob, ahead)).toThrow('Too many skipped messages');
+  });
+
+  it('continues after a serialize round trip', () => {
+    const { alice, bob } = startSessions();
+    const pending = ratchetEncrypt(alice, 'pending');
+    expect(ratchetDecrypt(bob, ratchetEncrypt(alice, 'skip ahead'))).toBe('skip ahead');
+
+    const restored = deserializeSession(JSON.parse(JSON.stringify(serializeSession(bob))));
+    expect(ratchetDecrypt(restored, pending)).toBe('pending');
+    expect(ratchetDecrypt(alice, ratchetEncrypt(restored, 'back'))).toBe('back');
+  });
+});
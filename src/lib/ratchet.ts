@@ -0,0 +1,315 @@
+/**
+ * Double Ratchet sessions for direct messages
+ * https://signal.org/docs/specifications/doubleratchet/
+ *
+ * Sessions start from an X3DH result (see x3dhInitiate / x3dhRespond in
+ * ./crypto.ts): the initiator ratchets against the responder's signed pre-key,
+ * the responder starts from that pre-key pair. Every message then uses a fresh
+ * key, so a leaked key exposes neither past nor (after the next DH step)
+ * future messages.
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes, concatBytes } from '@noble/hashes/utils';
+import { generateKeyPair, keyToHex, hexToKey, deriveX3DHKeys, type KeyPair } from './crypto';
+
+/** Most message keys skipped within one chain */
+export const MAX_SKIP = 1000;
+/** Most skipped message keys kept per session (oldest evicted first) */
+export const MAX_STORED_SKIPPED_KEYS = 2000;
+
+const RATCHET_INFO = 'imajin-chat-ratchet-v1';
+
+export interface RatchetHeader {
+  dh: string;   // Sender's current ratchet public key (hex)
+  pn: number;   // Messages in the sender's previous sending chain
+  n: number;    // Message number in the current sending chain
+}
+
+/**
+ * Ratchet-encrypted payload, stored as `messages.content`
+ * (the first message of a session also carries `x3dh`)
+ */
+export interface RatchetMessage {
+  ratchet: RatchetHeader;
+  encrypted: string;
+  nonce: string;
+}
+
+export interface RatchetSession {
+  rootKey: Uint8Array;
+  sendingKey: KeyPair;
+  receivingKey: Uint8Array | null;
+  sendingChain: Uint8Array | null;
+  receivingChain: Uint8Array | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skipped: Map<string, Uint8Array>;   // `${dh}:${n}` -> message key, in insertion order
+  associatedData: Uint8Array;
+}
+
+/**
+ * JSON-safe session, for persisting on the client
+ */
+export interface SerializedRatchetSession {
+  version: 1;
+  rootKey: string;
+  sendingKey: { publicKey: string; privateKey: string };
+  receivingKey: string | null;
+  sendingChain: string | null;
+  receivingChain: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skipped: [string, string][];
+  associatedData: string;
+}
+
+function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): { rootKey: Uint8Array; chainKey: Uint8Array } {
+  const out = hkdf(sha256, dhOutput, rootKey, RATCHET_INFO, 64);
+  return { rootKey: out.slice(0, 32), chainKey: out.slice(32) };
+}
+
+function kdfChainKey(chainKey: Uint8Array): { chainKey: Uint8Array; messageKey: Uint8Array } {
+  return {
+    messageKey: hmac(sha256, chainKey, new Uint8Array([0x01])),
+    chainKey: hmac(sha256, chainKey, new Uint8Array([0x02])),
+  };
+}
+
+function encodeHeader(header: RatchetHeader): Uint8Array {
+  return new TextEncoder().encode(`${header.dh}:${header.pn}:${header.n}`);
+}
+
+function skippedKeyId(dh: string, n: number): string {
+  return `${dh}:${n}`;
+}
+
+/**
+ * Start a session as the X3DH initiator
+ */
+export function initSenderSession(
+  sharedSecret: Uint8Array,
+  associatedData: Uint8Array,
+  responderSignedPreKey: Uint8Array
+): RatchetSession {
+  const sendingKey = generateKeyPair();
+  const { rootKey, chainKey } = kdfRootKey(
+    deriveX3DHKeys(sharedSecret).rootKey,
+    x25519.getSharedSecret(sendingKey.privateKey, responderSignedPreKey)
+  );
+
+  return {
+    rootKey,
+    sendingKey,
+    receivingKey: responderSignedPreKey,
+    sendingChain: chainKey,
+    receivingChain: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: new Map(),
+    associatedData,
+  };
+}
+
+/**
+ * Start a session as the X3DH responder
+ */
+export function initReceiverSession(
+  sharedSecret: Uint8Array,
+  associatedData: Uint8Array,
+  signedPreKey: KeyPair
+): RatchetSession {
+  return {
+    rootKey: deriveX3DHKeys(sharedSecret).rootKey,
+    sendingKey: signedPreKey,
+    receivingKey: null,
+    sendingChain: null,
+    receivingChain: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: new Map(),
+    associatedData,
+  };
+}
+
+/**
+ * Encrypt the next message and advance the sending chain
+ */
+export function ratchetEncrypt(session: RatchetSession, plaintext: string): RatchetMessage {
+  if (!session.sendingChain) {
+    throw new Error('Session cannot send before receiving the first message');
+  }
+
+  const { chainKey, messageKey } = kdfChainKey(session.sendingChain);
+  const header: RatchetHeader = {
+    dh: keyToHex(session.sendingKey.publicKey),
+    pn: session.previousSendCount,
+    n: session.sendCount,
+  };
+
+  const nonce = randomBytes(24);
+  const cipher = xchacha20poly1305(messageKey, nonce, concatBytes(session.associatedData, encodeHeader(header)));
+  const ciphertext = cipher.encrypt(new TextEncoder().encode(plaintext));
+
+  session.sendingChain = chainKey;
+  session.sendCount += 1;
+
+  return {
+    ratchet: header,
+    encrypted: Buffer.from(ciphertext).toString('base64'),
+    nonce: Buffer.from(nonce).toString('base64'),
+  };
+}
+
+function storeSkippedKeys(session: RatchetSession, until: number): void {
+  if (!session.receivingChain || !session.receivingKey) return;
+  if (until - session.receiveCount > MAX_SKIP) {
+    throw new Error('Too many skipped messages');
+  }
+
+  const dh = keyToHex(session.receivingKey);
+  while (session.receiveCount < until) {
+    const { chainKey, messageKey } = kdfChainKey(session.receivingChain);
+    session.skipped.set(skippedKeyId(dh, session.receiveCount), messageKey);
+    session.receivingChain = chainKey;
+    session.receiveCount += 1;
+  }
+
+  // Bound memory: drop the oldest keys first
+  while (session.skipped.size > MAX_STORED_SKIPPED_KEYS) {
+    const oldest = session.skipped.keys().next().value as string;
+    session.skipped.delete(oldest);
+  }
+}
+
+function dhRatchet(session: RatchetSession, header: RatchetHeader): void {
+  session.previousSendCount = session.sendCount;
+  session.sendCount = 0;
+  session.receiveCount = 0;
+  session.receivingKey = hexToKey(header.dh);
+
+  const receiving = kdfRootKey(
+    session.rootKey,
+    x25519.getSharedSecret(session.sendingKey.privateKey, session.receivingKey)
+  );
+  session.rootKey = receiving.rootKey;
+  session.receivingChain = receiving.chainKey;
+
+  session.sendingKey = generateKeyPair();
+  const sending = kdfRootKey(
+    session.rootKey,
+    x25519.getSharedSecret(session.sendingKey.privateKey, session.receivingKey)
+  );
+  session.rootKey = sending.rootKey;
+  session.sendingChain = sending.chainKey;
+}
+
+function openWithKey(session: RatchetSession, message: RatchetMessage, messageKey: Uint8Array): string {
+  const cipher = xchacha20poly1305(
+    messageKey,
+    Buffer.from(message.nonce, 'base64'),
+    concatBytes(session.associatedData, encodeHeader(message.ratchet))
+  );
+  const plaintext = cipher.decrypt(Buffer.from(message.encrypted, 'base64'));
+  return new TextDecoder().decode(plaintext);
+}
+
+function copySession(session: RatchetSession): RatchetSession {
+  return { ...session, skipped: new Map(session.skipped) };
+}
+
+/**
+ * Decrypt a message, stepping the DH ratchet when the sender has moved on.
+ * The session is only updated if decryption succeeds.
+ */
+export function ratchetDecrypt(session: RatchetSession, message: RatchetMessage): string {
+  const { ratchet: header } = message;
+  if (!/^[0-9a-f]{64}$/i.test(header.dh) || !Number.isInteger(header.n) || !Number.isInteger(header.pn)
+    || header.n < 0 || header.pn < 0) {
+    throw new Error('Malformed ratchet header');
+  }
+
+  // Out-of-order message from a chain we already advanced past
+  const skippedId = skippedKeyId(header.dh, header.n);
+  const skippedKey = session.skipped.get(skippedId);
+  if (skippedKey) {
+    const plaintext = openWithKey(session, message, skippedKey);
+    session.skipped.delete(skippedId);
+    return plaintext;
+  }
+
+  const next = copySession(session);
+
+  if (!next.receivingKey || header.dh !== keyToHex(next.receivingKey)) {
+    storeSkippedKeys(next, header.pn);
+    dhRatchet(next, header);
+  }
+
+  storeSkippedKeys(next, header.n);
+
+  const { chainKey, messageKey } = kdfChainKey(next.receivingChain!);
+  const plaintext = openWithKey(next, message, messageKey);
+  next.receivingChain = chainKey;
+  next.receiveCount += 1;
+
+  Object.assign(session, next);
+  return plaintext;
+}
+
+/**
+ * Serialize a session for storage
+ */
+export function serializeSession(session: RatchetSession): SerializedRatchetSession {
+  const hex = (key: Uint8Array | null) => (key ? keyToHex(key) : null);
+
+  return {
+    version: 1,
+    rootKey: keyToHex(session.rootKey),
+    sendingKey: {
+      publicKey: keyToHex(session.sendingKey.publicKey),
+      privateKey: keyToHex(session.sendingKey.privateKey),
+    },
+    receivingKey: hex(session.receivingKey),
+    sendingChain: hex(session.sendingChain),
+    receivingChain: hex(session.receivingChain),
+    sendCount: session.sendCount,
+    receiveCount: session.receiveCount,
+    previousSendCount: session.previousSendCount,
+    skipped: Array.from(session.skipped, ([id, key]) => [id, keyToHex(key)]),
+    associatedData: keyToHex(session.associatedData),
+  };
+}
+
+/**
+ * Restore a session from serializeSession output
+ */
+export function deserializeSession(data: SerializedRatchetSession): RatchetSession {
+  if (data.version !== 1) {
+    throw new Error(`Unsupported session version: ${data.version}`);
+  }
+  const key = (hex: string | null) => (hex ? hexToKey(hex) : null);
+
+  return {
+    rootKey: hexToKey(data.rootKey),
+    sendingKey: {
+      publicKey: hexToKey(data.sendingKey.publicKey),
+      privateKey: hexToKey(data.sendingKey.privateKey),
+    },
+    receivingKey: key(data.receivingKey),
+    sendingChain: key(data.sendingChain),
+    receivingChain: key(data.receivingChain),
+    sendCount: data.sendCount,
+    receiveCount: data.receiveCount,
+    previousSendCount: data.previousSendCount,
+    skipped: new Map(data.skipped.map(([id, hex]) => [id, hexToKey(hex)])),
+    associatedData: hexToKey(data.associatedData),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, migrated, rateLimits } from '@/test/db';
+import { hitRateLimit } from './ratelimit';
+
+vi.mock('@/db', () => import('@/test/db'));
+
+const LIMIT = { limit: 3, windowMs: 60_000 };
+
+beforeAll(async () => {
+  await migrated;
+}, 60_000);
+
+describe('hitRateLimit', () => {
+  it('refuses attempts over the limit within a window', async () => {
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(await hitRateLimit('test:a', LIMIT));
+    }
+
+    expect(results).toEqual([true, true, true, false, false]);
+    expect(await hitRateLimit('test:b', LIMIT)).toBe(true);
+  });
+
+  it('starts over once the window is over', async () => {
+    for (let i = 0; i < 4; i++) {
+      await hitRateLimit('test:c', LIMIT);
+    }
+    expect(await hitRateLimit('test:c', LIMIT)).toBe(false);
+
+    await db
+      .update(rateLimits)
+      .set({ windowStart: new Date(Date.now() - LIMIT.windowMs - 1000) })
+      .where(eq(rateLimits.key, 'test:c'));
+
+    expect(await hitRateLimit('test:c', LIMIT)).toBe(true);
+    expect(await hitRateLimit('test:c', LIMIT)).toBe(true);
+  });
+});
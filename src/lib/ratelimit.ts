@@ -0,0 +1,38 @@
+/**
+ * Rate limiting
+ *
+ * Fixed-window counters kept in the database, so every instance counts
+ * against the same limit. Each attempt bumps its key's counter in one upsert;
+ * the first attempt after a window is over starts a new one.
+ */
+
+import { sql } from 'drizzle-orm';
+import { db, rateLimits } from '@/db';
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Count an attempt against `key`; false once it's over the limit for the
+ * current window (the attempt should be refused)
+ */
+export async function hitRateLimit(key: string, { limit, windowMs }: RateLimit): Promise<boolean> {
+  const now = new Date();
+  const windowOver = sql`${rateLimits.windowStart} <= ${new Date(now.getTime() - windowMs).toISOString()}::timestamptz`;
+
+  const [row] = await db
+    .insert(rateLimits)
+    .values({ key, windowStart: now, count: 1 })
+    .onConflictDoUpdate({
+      target: rateLimits.key,
+      set: {
+        count: sql`case when ${windowOver} then 1 else ${rateLimits.count} + 1 end`,
+        windowStart: sql`case when ${windowOver} then ${now.toISOString()}::timestamptz else ${rateLimits.windowStart} end`,
+      },
+    })
+    .returning({ count: rateLimits.count });
+
+  return row.count <= limit;
+}
@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi } from 'vitest';
+import { createMemoryPubSub } from './pubsub';
+import { createRealtimeHub, type RealtimeFrame } from './realtime';
+
+const typing = { type: 'typing', conversationId: 'conv_a', did: 'did:imajin:alice', isTyping: true } as const;
+
+describe('createRealtimeHub', () => {
+  it('delivers events published on one instance to sockets on another', async () => {
+    const bus = new EventEmitter();
+    const first = createRealtimeHub(createMemoryPubSub(bus));
+    const second = createRealtimeHub(createMemoryPubSub(bus));
+
+    const received: RealtimeFrame[] = [];
+    second.subscribeConversation('conv_a', (event) => received.push(event));
+    second.subscribeConversation('conv_b', (event) => received.push(event));
+
+    await first.publishToConversation('conv_a', typing);
+    await first.publishToUser('did:imajin:alice', { type: 'blocks.changed' });
+
+    expect(received).toEqual([typing]);
+  });
+
+  it('subscribes each channel on the bus once and drops it with its last listener', async () => {
+    const bus = new EventEmitter();
+    const hub = createRealtimeHub(createMemoryPubSub(bus));
+
+    const received: string[] = [];
+    const unsubscribeA = hub.subscribeConversation('conv_a', () => received.push('a'));
+    const unsubscribeB = hub.subscribeConversation('conv_a', () => received.push('b'));
+    await Promise.resolve();
+    expect(bus.listenerCount('conv:conv_a')).toBe(1);
+
+    unsubscribeA();
+    await hub.publishToConversation('conv_a', typing);
+    expect(received).toEqual(['b']);
+
+    unsubscribeB();
+    await Promise.resolve();
+    expect(bus.listenerCount('conv:conv_a')).toBe(0);
+  });
+
+  it('keeps delivering to other listeners when one throws', async () => {
+    const hub = createRealtimeHub(createMemoryPubSub());
+    const received: RealtimeFrame[] = [];
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    hub.subscribeUser('did:imajin:bob', () => {
+      throw new Error('listener failed');
+    });
+    hub.subscribeUser('did:imajin:bob', (event) => received.push(event));
+    await hub.publishToUser('did:imajin:bob', { type: 'blocks.changed' });
+
+    expect(received).toEqual([{ type: 'blocks.changed' }]);
+    expect(logged).toHaveBeenCalledWith('Realtime listener failed:', expect.any(Error));
+    logged.mockRestore();
+  });
+});
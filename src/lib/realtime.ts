@@ -0,0 +1,174 @@
+/**
+ * Real-time event hub
+ *
+ * Route handlers publish here after writing to the database; the WebSocket
+ * server (see ./ws.ts) subscribes sockets to the conversations they belong to.
+ * Events travel over the pub/sub bus (see ./pubsub.ts) so sockets held by
+ * any instance receive them.
+ */
+
+import type { Conversation, Message, Participant } from '@/db/schema';
+import { createPubSub, type PubSub } from './pubsub';
+import type { MessageTombstone } from './messaging';
+import type { RekeyReason } from './rekey';
+import { isDurable, getHeadCursor } from './changes';
+
+/**
+ * Events pushed to clients over /ws
+ * Dates arrive as ISO strings once serialized over the bus.
+ */
+export type RealtimeEvent =
+  | ({ type: 'message' } & Message)
+  | ({ type: 'message.edited' } & Message)
+  | ({ type: 'message.deleted'; deletedBy: string } & MessageTombstone)
+  | { type: 'conversation.joined'; conversationId: string }
+  | { type: 'conversation.left'; conversationId: string; reason?: 'left' | 'removed' | 'deleted' }
+  | { type: 'conversation.updated'; conversation: Conversation }
+  | { type: 'conversation.deleted'; conversationId: string }
+  | { type: 'message-request.declined'; conversationId: string }
+  | { type: 'participant.added'; conversationId: string; participant: Participant }
+  | { type: 'participant.updated'; conversationId: string; did: string; role: string }
+  | { type: 'participant.removed'; conversationId: string; did: string }
+  | { type: 'conversation.rekeyed'; conversationId: string; keyEpoch: number; reason: RekeyReason }
+  | { type: 'sender-key.received'; conversationId: string; fromDid: string; fromDeviceId: string; keyEpoch: number }
+  | { type: 'identity-key.changed'; conversationId: string; did: string; deviceId: string; identityKey: string }
+  | { type: 'pre-keys.low'; deviceId: string; remaining: number; watermark: number }
+  | { type: 'devices.changed'; conversationId: string; did: string }
+  | { type: 'device.linked'; deviceId: string; linkedBy: string }
+  | { type: 'device.revoked'; deviceId: string }
+  | { type: 'typing'; conversationId: string; did: string; isTyping: boolean }
+  | { type: 'presence'; did: string; status: 'online' | 'offline'; lastSeen: string | null }
+  | { type: 'blocks.changed' }    // server-internal, never forwarded to clients
+  | { type: 'report.updated'; reportId: string; status: string }
+  | { type: 'read'; conversationId: string; did: string; lastReadMessageId: string; readAt: string };
+
+/**
+ * Durable events carry a sync cursor to resume from (see ./changes.ts)
+ */
+export type RealtimeFrame = RealtimeEvent & { cursor?: string };
+
+export type RealtimeListener = (event: RealtimeFrame) => void;
+
+export interface RealtimeHub {
+  subscribeConversation(conversationId: string, listener: RealtimeListener): () => void;
+  subscribeUser(did: string, listener: RealtimeListener): () => void;
+  publishToConversation(conversationId: string, event: RealtimeFrame): Promise<void>;
+  publishToUser(did: string, event: RealtimeFrame): Promise<void>;
+}
+
+/**
+ * Create a hub on top of a pub/sub bus.
+ * Each channel is subscribed on the bus once, however many local sockets listen.
+ */
+export function createRealtimeHub(pubsub: PubSub): RealtimeHub {
+  const channels = new Map<string, Set<RealtimeListener>>();
+
+  function dispatch(channel: string, payload: string): void {
+    const listeners = channels.get(channel);
+    if (!listeners) return;
+
+    let event: RealtimeFrame;
+    try {
+      event = JSON.parse(payload);
+    } catch (error) {
+      console.error('Invalid realtime payload:', error);
+      return;
+    }
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Realtime listener failed:', error);
+      }
+    }
+  }
+
+  function subscribe(channel: string, listener: RealtimeListener): () => void {
+    let listeners = channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      channels.set(channel, listeners);
+      pubsub
+        .subscribe(channel, (payload) => dispatch(channel, payload))
+        .catch((error) => console.error('Failed to subscribe to channel:', error));
+    }
+    listeners.add(listener);
+
+    return () => {
+      if (!listeners!.delete(listener) || listeners!.size > 0) return;
+      channels.delete(channel);
+      pubsub
+        .unsubscribe(channel)
+        .catch((error) => console.error('Failed to unsubscribe from channel:', error));
+    };
+  }
+
+  async function publish(channel: string, event: RealtimeFrame): Promise<void> {
+    try {
+      await pubsub.publish(channel, JSON.stringify(event));
+    } catch (error) {
+      // Delivery is best-effort; clients catch up from the REST API
+      console.error('Failed to publish realtime event:', error);
+    }
+  }
+
+  return {
+    subscribeConversation: (conversationId, listener) => subscribe(`conv:${conversationId}`, listener),
+    subscribeUser: (did, listener) => subscribe(`user:${did}`, listener),
+    publishToConversation: (conversationId, event) => publish(`conv:${conversationId}`, event),
+    publishToUser: (did, event) => publish(`user:${did}`, event),
+  };
+}
+
+// Next bundles route handlers separately from the custom server, so the hub
+// lives on globalThis to make both sides see the same instance.
+const globalForHub = globalThis as unknown as { imajinChatHub?: RealtimeHub };
+
+function getHub(): RealtimeHub {
+  if (!globalForHub.imajinChatHub) {
+    globalForHub.imajinChatHub = createRealtimeHub(createPubSub());
+  }
+  return globalForHub.imajinChatHub;
+}
+
+/**
+ * Subscribe to events for everyone in a conversation
+ */
+export function subscribeConversation(conversationId: string, listener: RealtimeListener): () => void {
+  return getHub().subscribeConversation(conversationId, listener);
+}
+
+/**
+ * Subscribe to events addressed to a single DID (membership changes)
+ */
+export function subscribeUser(did: string, listener: RealtimeListener): () => void {
+  return getHub().subscribeUser(did, listener);
+}
+
+async function toFrame(event: RealtimeEvent): Promise<RealtimeFrame> {
+  return isDurable(event) ? { ...event, cursor: await getHeadCursor() } : event;
+}
+
+/**
+ * Publish an event to everyone in a conversation. Durable events must already
+ * be logged, with logChange in the batch that made the change.
+ */
+export async function publishToConversation(conversationId: string, event: RealtimeEvent): Promise<void> {
+  return getHub().publishToConversation(conversationId, await toFrame(event));
+}
+
+/**
+ * Publish an event to a single DID across all their sockets. Durable events
+ * must already be logged, with logChange in the batch that made the change.
+ */
+export async function publishToUser(did: string, event: RealtimeEvent): Promise<void> {
+  return getHub().publishToUser(did, await toFrame(event));
+}
+
+/**
+ * Push a newly inserted message to the conversation
+ */
+export function publishMessage(message: Message): Promise<void> {
+  return publishToConversation(message.conversationId, { type: 'message', ...message });
+}
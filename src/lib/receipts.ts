@@ -0,0 +1,114 @@
+/**
+ * Read receipts
+ *
+ * `read_receipts` holds the last message each participant has read;
+ * `participants.lastReadAt` mirrors that message's timestamp so unread counts
+ * can be computed with a plain comparison.
+ */
+
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import { db, participants, messages, readReceipts } from '@/db';
+import { publishToConversation } from './realtime';
+
+export interface ReadResult {
+  conversationId: string;
+  did: string;
+  lastReadMessageId: string | null;
+  readAt: Date | null;
+}
+
+/**
+ * Mark a conversation as read up to `lastReadMessageId` (default: latest message).
+ * Receipts never move backwards.
+ */
+export async function markRead(
+  conversationId: string,
+  did: string,
+  lastReadMessageId?: string
+): Promise<ReadResult | { error: string; status: number }> {
+  const participant = await db.query.participants.findFirst({
+    where: and(
+      eq(participants.conversationId, conversationId),
+      eq(participants.did, did)
+    ),
+  });
+
+  if (!participant) {
+    return { error: 'Conversation not found or access denied', status: 404 };
+  }
+
+  const message = lastReadMessageId
+    ? await db.query.messages.findFirst({
+        where: and(
+          eq(messages.id, lastReadMessageId),
+          eq(messages.conversationId, conversationId)
+        ),
+      })
+    : await db.query.messages.findFirst({
+        where: and(
+          eq(messages.conversationId, conversationId),
+          isNull(messages.deletedAt)
+        ),
+        orderBy: [desc(messages.createdAt), desc(messages.id)],
+      });
+
+  if (!message) {
+    if (lastReadMessageId) {
+      return { error: 'Message not found in this conversation', status: 400 };
+    }
+    return { conversationId, did, lastReadMessageId: null, readAt: null };
+  }
+
+  const existing = await db.query.readReceipts.findFirst({
+    where: and(
+      eq(readReceipts.conversationId, conversationId),
+      eq(readReceipts.did, did)
+    ),
+  });
+
+  if (
+    existing?.lastReadMessageId &&
+    participant.lastReadAt &&
+    message.createdAt &&
+    participant.lastReadAt >= message.createdAt
+  ) {
+    return {
+      conversationId,
+      did,
+      lastReadMessageId: existing.lastReadMessageId,
+      readAt: existing.readAt,
+    };
+  }
+
+  const readAt = new Date();
+
+  await db
+    .insert(readReceipts)
+    .values({ conversationId, did, lastReadMessageId: message.id, readAt })
+    .onConflictDoUpdate({
+      target: [readReceipts.conversationId, readReceipts.did],
+      set: { lastReadMessageId: message.id, readAt },
+    });
+
+  await db
+    .update(participants)
+    // Copy the timestamp in SQL: JS dates would drop Postgres' microseconds and
+    // leave the message itself counted as unread
+    .set({ lastReadAt: sql`(select ${messages.createdAt} from ${messages} where ${messages.id} = ${message.id})` })
+    .where(
+      and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, did)
+      )
+    );
+
+  await publishToConversation(conversationId, {
+    type: 'read',
+    conversationId,
+    did,
+    lastReadMessageId: message.id,
+    readAt: readAt.toISOString(),
+  });
+
+  return { conversationId, did, lastReadMessageId: message.id, readAt };
+}
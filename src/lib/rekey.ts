@@ -0,0 +1,86 @@
+/**
+ * Sender key rotation for group conversations (see ./senderkeys.ts)
+ *
+ * The server can't read group keys, but it owns membership: when someone is
+ * removed, leaves or revokes a device it bumps `conversations.keyEpoch`, drops distributions for
+ * older epochs, and refuses group messages that aren't sent with a chain for
+ * the current epoch. Remaining members then start new chains and distribute them.
+ */
+
+import { eq, and, or, lt } from 'drizzle-orm';
+import { db, conversations, participants, senderKeyDistributions } from '@/db';
+import type { Conversation } from '@/db/schema';
+import { publishToConversation } from './realtime';
+import { logChange, wroteRows } from './changes';
+
+export type RekeyReason = 'left' | 'removed' | 'device-revoked';
+
+/**
+ * Start a new key epoch after `did` left or was removed (or lost a device)
+ */
+export async function rotateSenderKeys(
+  conversationId: string,
+  did: string,
+  reason: RekeyReason
+): Promise<number> {
+  const [current] = await db
+    .select({ keyEpoch: conversations.keyEpoch })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId));
+
+  // A rotation that got there first already started a new epoch after
+  // `did`'s change, so this one only moves the epoch if it's unchanged
+  const keyEpoch = current.keyEpoch + 1;
+  const event = { type: 'conversation.rekeyed', conversationId, keyEpoch, reason } as const;
+
+  await db.batch([
+    db
+      .update(conversations)
+      .set({ keyEpoch })
+      .where(and(eq(conversations.id, conversationId), eq(conversations.keyEpoch, current.keyEpoch))),
+    db
+      .delete(senderKeyDistributions)
+      .where(
+        and(
+          eq(senderKeyDistributions.conversationId, conversationId),
+          or(
+            lt(senderKeyDistributions.keyEpoch, keyEpoch),
+            eq(senderKeyDistributions.fromDid, did),
+            eq(senderKeyDistributions.toDid, did)
+          )
+        )
+      ),
+    logChange(event, { conversationId }, wroteRows(conversations, eq(conversations.id, conversationId))),
+  ]);
+
+  await publishToConversation(conversationId, event);
+
+  return keyEpoch;
+}
+
+/**
+ * Rotate every group `did` belongs to - a revoked device still holds their
+ * chains and everyone else's
+ */
+export async function rotateSenderKeysForDevice(did: string): Promise<void> {
+  const groups = await db
+    .select({ id: conversations.id })
+    .from(participants)
+    .innerJoin(conversations, eq(conversations.id, participants.conversationId))
+    .where(and(eq(participants.did, did), eq(conversations.type, 'group')));
+
+  for (const group of groups) {
+    await rotateSenderKeys(group.id, did, 'device-revoked');
+  }
+}
+
+/**
+ * Whether message content may be stored in this conversation: group messages
+ * must be encrypted with a sender key from the current epoch.
+ */
+export function usesCurrentSenderKey(conversation: Conversation, content: Record<string, unknown>): boolean {
+  if (conversation.type !== 'group' || content.type === 'system') return true;
+
+  const header = content.senderKey as { keyEpoch?: unknown } | undefined;
+  return header?.keyEpoch === conversation.keyEpoch;
+}
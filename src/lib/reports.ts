@@ -0,0 +1,155 @@
+/**
+ * Abuse reports
+ *
+ * Messages are end-to-end encrypted, so moderators only see what a reporter
+ * chooses to disclose. A report is about a message or a DID; for a message the
+ * reporter may reveal its plaintext and franking key, which are checked
+ * against the commitments the server kept for the message (see "Message
+ * franking" in ./crypto.ts). Only disclosures that verify are
+ * accepted, so moderators can rely on them.
+ *
+ * Moderators are the DIDs in MODERATOR_DIDS (comma-separated). Reports move
+ * open → reviewing → actioned | dismissed; a dismissed report can be reopened.
+ */
+
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { db, reports, messageEdits, type Message, type Report } from '@/db';
+import { verifyMessageCommitment } from './crypto';
+import { publishToUser } from './realtime';
+import { logChange, wroteRows } from './changes';
+
+export const REPORT_REASONS = ['spam', 'harassment', 'impersonation', 'illegal', 'other'] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_STATUSES = ['open', 'reviewing', 'actioned', 'dismissed'] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+/** Statuses a report can move to from each status */
+export const REPORT_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> = {
+  open: ['reviewing', 'actioned', 'dismissed'],
+  reviewing: ['open', 'actioned', 'dismissed'],
+  actioned: [],
+  dismissed: ['open'],
+};
+
+export const MAX_REPORT_DETAILS_LENGTH = 2000;
+export const MAX_DISCLOSED_PLAINTEXT_LENGTH = 64 * 1024;
+
+/**
+ * Whether `did` may work the reports queue
+ */
+export function isModerator(did: string): boolean {
+  return (process.env.MODERATOR_DIDS || '')
+    .split(',')
+    .map((d) => d.trim())
+    .includes(did);
+}
+
+/**
+ * Whether revealed plaintext and franking key open one of the message's
+ * commitments: the current version's, or one from its edit history (which is
+ * dropped when the message is deleted)
+ */
+export async function verifyDisclosure(message: Message, plaintext: string, frankingKey: string): Promise<boolean> {
+  const edits = await db.query.messageEdits.findMany({
+    where: eq(messageEdits.messageId, message.id),
+  });
+
+  const commitments = [message.commitment, ...edits.map((edit) => edit.content)]
+    .map((value) => (value && typeof value === 'object' ? (value as Record<string, unknown>).commitment : value))
+    .filter((value): value is string => typeof value === 'string');
+
+  return commitments.some((commitment) =>
+    verifyMessageCommitment(message.conversationId, message.fromDid, plaintext, frankingKey, commitment)
+  );
+}
+
+/**
+ * Report as shown to its reporter, or in full to moderators
+ */
+export function toReportView(report: Report, forModerator: boolean) {
+  const view = {
+    id: report.id,
+    reportedDid: report.reportedDid,
+    conversationId: report.conversationId,
+    messageId: report.messageId,
+    reason: report.reason,
+    details: report.details,
+    disclosedPlaintext: report.disclosedPlaintext,
+    verified: report.verified,
+    status: report.status,
+    createdAt: report.createdAt,
+    updatedAt: report.updatedAt,
+  };
+
+  if (!forModerator) return view;
+
+  return {
+    ...view,
+    reporterDid: report.reporterDid,
+    frankingKey: report.frankingKey,
+    resolution: report.resolution,
+    reviewedBy: report.reviewedBy,
+  };
+}
+
+/**
+ * Reports a DID filed, newest first
+ */
+export async function listMyReports(did: string) {
+  return db.query.reports.findMany({
+    where: eq(reports.reporterDid, did),
+    orderBy: [desc(reports.createdAt)],
+  });
+}
+
+/**
+ * Moderation queue: reports with `status`, oldest first
+ */
+export async function listReportQueue(status: ReportStatus, limit: number) {
+  return db.query.reports.findMany({
+    where: eq(reports.status, status),
+    orderBy: [asc(reports.createdAt), asc(reports.id)],
+    limit,
+  });
+}
+
+/**
+ * Move a report to `status` on behalf of a moderator. The reporter is told
+ * the new status (not the resolution note).
+ */
+export async function transitionReport(
+  report: Report,
+  status: ReportStatus,
+  moderatorDid: string,
+  resolution?: string
+): Promise<{ report: Report } | { error: string; status: number }> {
+  const current = report.status as ReportStatus;
+  if (!REPORT_TRANSITIONS[current].includes(status)) {
+    return { error: `Cannot move a report from ${current} to ${status}`, status: 409 };
+  }
+
+  const event = { type: 'report.updated', reportId: report.id, status } as const;
+  const [[updated]] = await db.batch([
+    db
+      .update(reports)
+      .set({
+        status,
+        resolution: resolution ?? report.resolution,
+        reviewedBy: moderatorDid,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(reports.id, report.id), eq(reports.status, current)))
+      .returning(),
+    logChange(event, { did: report.reporterDid }, wroteRows(reports, eq(reports.id, report.id))),
+  ]);
+
+  // Another moderator changed it first
+  if (!updated) {
+    return { error: 'Report was updated by someone else', status: 409 };
+  }
+
+  await publishToUser(updated.reporterDid, event);
+
+  return { report: updated };
+}
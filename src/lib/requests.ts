@@ -0,0 +1,138 @@
+/**
+ * Message requests
+ *
+ * A direct conversation opened by someone the recipient isn't connected to
+ * (./connections.ts) starts as a request: it shows up in the recipient's
+ * requests list instead of their inbox, and the sender can send at most
+ * MESSAGE_REQUEST_LIMIT messages until the recipient accepts (or replies).
+ * A declined request looks pending to the sender, who stays at the limit.
+ */
+
+import { eq, and, count, exists, isNotNull, sql } from 'drizzle-orm';
+import { db, conversations, messages, type Conversation } from '@/db';
+import { getConnectionsGraph } from './connections';
+import { publishToConversation, publishToUser } from './realtime';
+import { logChange } from './changes';
+
+export const MESSAGE_REQUEST_LIMIT = 3;
+
+export const messageRequestLimitError = {
+  error: `Message request limit reached (${MESSAGE_REQUEST_LIMIT} messages until accepted)`,
+  status: 403,
+};
+
+/**
+ * Whether a direct conversation from `senderDid` needs the recipient's
+ * approval. Treated as a request when the graph can't be reached.
+ */
+export async function needsMessageRequest(senderDid: string, recipientDid: string): Promise<boolean> {
+  try {
+    return (await getConnectionsGraph().distance(recipientDid, [senderDid], 1)) === null;
+  } catch (error) {
+    console.error('Connections lookup failed:', error);
+    return true;
+  }
+}
+
+/**
+ * Whether `did` may send a message to the conversation as far as requests
+ * go. A reply from the recipient accepts the request.
+ */
+export async function checkMessageRequest(
+  conversation: Conversation,
+  did: string
+): Promise<{ error: string; status: number } | null> {
+  if (!conversation.requestStatus) return null;
+
+  if (did !== conversation.createdBy) {
+    await acceptMessageRequest(conversation);
+    return null;
+  }
+
+  if (conversation.requestStatus === 'declined') return messageRequestLimitError;
+
+  // Deleted messages count too, so they can't be deleted and resent
+  const [{ sent }] = await db
+    .select({ sent: count() })
+    .from(messages)
+    .where(sentBy(conversation.id, did));
+
+  return sent >= MESSAGE_REQUEST_LIMIT ? messageRequestLimitError : null;
+}
+
+function sentBy(conversationId: string, did: string) {
+  return and(eq(messages.conversationId, conversationId), eq(messages.fromDid, did));
+}
+
+/**
+ * Batch items that hold the limit against concurrent sends, which can all
+ * pass checkMessageRequest: `lock` goes before the message insert and
+ * `takeBack` after it. Sends to a request queue on the conversation's row,
+ * and a message that took its sender past the limit is deleted again -
+ * takeBack returns it then.
+ */
+export function guardMessageRequest(conversationId: string, did: string, messageId: string) {
+  const isRequest = and(eq(conversations.id, conversationId), isNotNull(conversations.requestStatus));
+  const sent = db.select({ sent: count() }).from(messages).where(sentBy(conversationId, did));
+
+  return {
+    lock: db.select({ id: conversations.id }).from(conversations).where(isRequest).for('update'),
+    takeBack: db
+      .delete(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        exists(db.select({ id: conversations.id }).from(conversations).where(and(isRequest, eq(conversations.createdBy, did)))),
+        sql`(${sent}) > ${MESSAGE_REQUEST_LIMIT}`
+      ))
+      .returning({ id: messages.id }),
+  };
+}
+
+/**
+ * Move a request to the recipient's inbox
+ */
+export async function acceptMessageRequest(conversation: Conversation): Promise<Conversation> {
+  const updated = { ...conversation, requestStatus: null, updatedAt: new Date() };
+  const event = { type: 'conversation.updated', conversation: updated } as const;
+
+  await db.batch([
+    db
+      .update(conversations)
+      .set({ requestStatus: updated.requestStatus, updatedAt: updated.updatedAt })
+      .where(eq(conversations.id, conversation.id)),
+    logChange(event, { conversationId: conversation.id }),
+  ]);
+
+  await publishToConversation(conversation.id, event);
+  return updated;
+}
+
+/**
+ * Hide a request from the recipient. Only the recipient's devices hear about
+ * it - the sender isn't told.
+ */
+export async function declineMessageRequest(conversation: Conversation, recipientDid: string): Promise<void> {
+  const event = { type: 'message-request.declined', conversationId: conversation.id } as const;
+
+  await db.batch([
+    db
+      .update(conversations)
+      .set({ requestStatus: 'declined', updatedAt: new Date() })
+      .where(eq(conversations.id, conversation.id)),
+    logChange(event, { did: recipientDid }),
+  ]);
+
+  await publishToUser(recipientDid, event);
+}
+
+/**
+ * Conversation as `viewerDid` may see it: senders never learn of a decline.
+ * Without a viewer (events to every participant), the sender's view.
+ */
+export function toConversationView(conversation: Conversation, viewerDid?: string): Conversation {
+  const seesDecline = viewerDid !== undefined && viewerDid !== conversation.createdBy;
+  if (conversation.requestStatus === 'declined' && !seesDecline) {
+    return { ...conversation, requestStatus: 'pending' };
+  }
+  return conversation;
+}
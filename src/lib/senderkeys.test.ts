@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import type { Conversation } from '@/db/schema';
+import {
+  createSenderKey,
+  createDistributionMessage,
+  processDistributionMessage,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+} from './senderkeys';
+import { usesCurrentSenderKey } from './rekey';
+
+const CONVERSATION_ID = 'conv_group';
+const ALICE = 'did:imajin:alice';
+
+function group(keyEpoch: number): Conversation {
+  return { id: CONVERSATION_ID, type: 'group', keyEpoch } as Conversation;
+}
+
+describe('Sender Keys', () => {
+  it('lets members read a chain from its distribution message', () => {
+    const mine = createSenderKey(CONVERSATION_ID, ALICE, 0);
+    const theirs = processDistributionMessage(createDistributionMessage(mine), ALICE);
+
+    expect(senderKeyDecrypt(theirs, senderKeyEncrypt(mine, 'hello group'))).toBe('hello group');
+  });
+
+  it('rejects a distribution message relayed by someone else', () => {
+    const mine = createSenderKey(CONVERSATION_ID, ALICE, 0);
+    expect(() => processDistributionMessage(createDistributionMessage(mine), 'did:imajin:mallory')).toThrow();
+  });
+
+  it('handles out-of-order messages and rejects replays', () => {
+    const mine = createSenderKey(CONVERSATION_ID, ALICE, 0);
+    const theirs = processDistributionMessage(createDistributionMessage(mine), ALICE);
+    const [first, second] = [senderKeyEncrypt(mine, 'first'), senderKeyEncrypt(mine, 'second')];
+
+    expect(senderKeyDecrypt(theirs, second)).toBe('second');
+    expect(senderKeyDecrypt(theirs, first)).toBe('first');
+    expect(() => senderKeyDecrypt(theirs, first)).toThrow('Message key already used');
+    expect(() => senderKeyDecrypt(theirs, second)).toThrow('Message key already used');
+  });
+
+  it('rejects messages whose signature does not match the chain', () => {
+    const mine = createSenderKey(CONVERSATION_ID, ALICE, 0);
+    const theirs = processDistributionMessage(createDistributionMessage(mine), ALICE);
+    const message = senderKeyEncrypt(mine, 'signed');
+    const forged = { ...message, signature: '00'.repeat(64) };
+
+    expect(() => senderKeyDecrypt(theirs, forged)).toThrow('Invalid sender key signature');
+    expect(senderKeyDecrypt(theirs, message)).toBe('signed');
+  });
+
+  it('does not read messages from a chain of another epoch', () => {
+    const old = createSenderKey(CONVERSATION_ID, ALICE, 0);
+    const current = createSenderKey(CONVERSATION_ID, ALICE, 1);
+    const theirs = processDistributionMessage(createDistributionMessage(current), ALICE);
+
+    expect(() => senderKeyDecrypt(theirs, senderKeyEncrypt(old, 'stale'))).toThrow('No sender key for this message');
+  });
+});
+
+describe('usesCurrentSenderKey', () => {
+  it('accepts group messages sent with the current epoch', () => {
+    const state = createSenderKey(CONVERSATION_ID, ALICE, 3);
+    expect(usesCurrentSenderKey(group(3), { ...senderKeyEncrypt(state, 'hi') })).toBe(true);
+  });
+
+  it('rejects group messages from an older epoch after a rekey', () => {
+    const state = createSenderKey(CONVERSATION_ID, ALICE, 2);
+    expect(usesCurrentSenderKey(group(3), { ...senderKeyEncrypt(state, 'hi') })).toBe(false);
+  });
+
+  it('rejects group messages without a sender key header', () => {
+    expect(usesCurrentSenderKey(group(0), { encrypted: 'x', nonce: 'y' })).toBe(false);
+    expect(usesCurrentSenderKey(group(0), { senderKey: { keyEpoch: '0' } })).toBe(false);
+  });
+
+  it('does not apply to system messages or direct conversations', () => {
+    expect(usesCurrentSenderKey(group(5), { type: 'system', text: 'joined' })).toBe(true);
+    expect(usesCurrentSenderKey({ type: 'direct', keyEpoch: 0 } as Conversation, { encrypted: 'x' })).toBe(true);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Sender Keys for group conversations
+ *
+ * Each member keeps their own sending chain per conversation and hands its
+ * current state to every other member in a distribution message, encrypted
+ * pairwise (see ./ratchet.ts) and relayed by POST /api/conversations/:id/sender-keys.
+ * Messages are encrypted once for the whole group and signed with a per-chain
+ * Ed25519 key, so members can't forge messages as each other.
+ *
+ * Sender keys belong to a conversation's `keyEpoch`; the server bumps it when
+ * someone is removed or leaves, and everyone must start a fresh chain.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes, concatBytes } from '@noble/hashes/utils';
+import { keyToHex, hexToKey } from './crypto';
+
+/** Most message keys skipped within one sender chain */
+export const MAX_SENDER_KEY_SKIP = 1000;
+
+/**
+ * A member's chain: our own (with the signing private key) or one received
+ * from a distribution message
+ */
+export interface SenderKeyState {
+  conversationId: string;
+  did: string;                         // Chain owner
+  keyEpoch: number;
+  keyId: number;
+  chainKey: Uint8Array;
+  iteration: number;
+  signingPublicKey: Uint8Array;
+  signingPrivateKey: Uint8Array | null;
+  skipped: Map<number, Uint8Array>;    // iteration -> message key
+}
+
+/**
+ * Sent to each member over a pairwise session before the first group message
+ */
+export interface SenderKeyDistribution {
+  version: 1;
+  conversationId: string;
+  did: string;
+  keyEpoch: number;
+  keyId: number;
+  iteration: number;
+  chainKey: string;
+  signingKey: string;
+}
+
+/**
+ * Group message content, stored as `messages.content`
+ */
+export interface SenderKeyMessage {
+  senderKey: {
+    keyEpoch: number;
+    keyId: number;
+    iteration: number;
+  };
+  encrypted: string;
+  nonce: string;
+  signature: string;
+}
+
+export interface SerializedSenderKeyState {
+  version: 1;
+  conversationId: string;
+  did: string;
+  keyEpoch: number;
+  keyId: number;
+  chainKey: string;
+  iteration: number;
+  signingPublicKey: string;
+  signingPrivateKey: string | null;
+  skipped: [number, string][];
+}
+
+function kdfChainKey(chainKey: Uint8Array): { chainKey: Uint8Array; messageKey: Uint8Array } {
+  return {
+    messageKey: hmac(sha256, chainKey, new Uint8Array([0x01])),
+    chainKey: hmac(sha256, chainKey, new Uint8Array([0x02])),
+  };
+}
+
+function associatedData(state: SenderKeyState, iteration: number): Uint8Array {
+  return new TextEncoder().encode(
+    `${state.conversationId}:${state.did}:${state.keyEpoch}:${state.keyId}:${iteration}`
+  );
+}
+
+function signedBytes(header: SenderKeyMessage['senderKey'], ciphertext: Uint8Array, nonce: Uint8Array): Uint8Array {
+  const { keyEpoch, keyId, iteration } = header;
+  return concatBytes(new TextEncoder().encode(`${keyEpoch}:${keyId}:${iteration}:`), nonce, ciphertext);
+}
+
+/**
+ * Start our own sending chain for a conversation's current key epoch
+ */
+export function createSenderKey(conversationId: string, did: string, keyEpoch: number): SenderKeyState {
+  const signingPrivateKey = ed25519.utils.randomSecretKey();
+
+  return {
+    conversationId,
+    did,
+    keyEpoch,
+    keyId: new DataView(randomBytes(4).buffer).getUint32(0),
+    chainKey: randomBytes(32),
+    iteration: 0,
+    signingPublicKey: ed25519.getPublicKey(signingPrivateKey),
+    signingPrivateKey,
+    skipped: new Map(),
+  };
+}
+
+/**
+ * Distribution message for our chain at its current position.
+ * Encrypt it pairwise before uploading; it lets the recipient read everything
+ * we send from here on.
+ */
+export function createDistributionMessage(state: SenderKeyState): SenderKeyDistribution {
+  return {
+    version: 1,
+    conversationId: state.conversationId,
+    did: state.did,
+    keyEpoch: state.keyEpoch,
+    keyId: state.keyId,
+    iteration: state.iteration,
+    chainKey: keyToHex(state.chainKey),
+    signingKey: keyToHex(state.signingPublicKey),
+  };
+}
+
+/**
+ * Build a receiving chain from a decrypted distribution message.
+ * `fromDid` is who sent it pairwise; it must own the chain.
+ */
+export function processDistributionMessage(
+  distribution: SenderKeyDistribution,
+  fromDid: string
+): SenderKeyState {
+  if (distribution.version !== 1) {
+    throw new Error(`Unsupported distribution version: ${distribution.version}`);
+  }
+  if (distribution.did !== fromDid) {
+    throw new Error('Distribution message is for another member\'s chain');
+  }
+
+  const chainKey = hexToKey(distribution.chainKey);
+  const signingPublicKey = hexToKey(distribution.signingKey);
+  if (chainKey.length !== 32 || signingPublicKey.length !== 32) {
+    throw new Error('Malformed distribution message');
+  }
+
+  return {
+    conversationId: distribution.conversationId,
+    did: distribution.did,
+    keyEpoch: distribution.keyEpoch,
+    keyId: distribution.keyId,
+    chainKey,
+    iteration: distribution.iteration,
+    signingPublicKey,
+    signingPrivateKey: null,
+    skipped: new Map(),
+  };
+}
+
+/**
+ * Encrypt a group message with our chain and advance it
+ */
+export function senderKeyEncrypt(state: SenderKeyState, plaintext: string): SenderKeyMessage {
+  if (!state.signingPrivateKey) {
+    throw new Error('Cannot send with another member\'s sender key');
+  }
+
+  const { chainKey, messageKey } = kdfChainKey(state.chainKey);
+  const nonce = randomBytes(24);
+  const cipher = xchacha20poly1305(messageKey, nonce, associatedData(state, state.iteration));
+  const ciphertext = cipher.encrypt(new TextEncoder().encode(plaintext));
+
+  const header = { keyEpoch: state.keyEpoch, keyId: state.keyId, iteration: state.iteration };
+  const signature = ed25519.sign(signedBytes(header, ciphertext, nonce), state.signingPrivateKey);
+
+  state.chainKey = chainKey;
+  state.iteration += 1;
+
+  return {
+    senderKey: header,
+    encrypted: Buffer.from(ciphertext).toString('base64'),
+    nonce: Buffer.from(nonce).toString('base64'),
+    signature: keyToHex(signature),
+  };
+}
+
+/**
+ * Decrypt a group message from the chain's owner.
+ * The state is only updated if the signature and ciphertext check out.
+ */
+export function senderKeyDecrypt(state: SenderKeyState, message: SenderKeyMessage): string {
+  const { keyEpoch, keyId, iteration } = message.senderKey;
+  if (keyEpoch !== state.keyEpoch || keyId !== state.keyId) {
+    throw new Error('No sender key for this message');
+  }
+  if (!Number.isInteger(iteration) || iteration < 0) {
+    throw new Error('Malformed sender key header');
+  }
+
+  const nonce = Buffer.from(message.nonce, 'base64');
+  const ciphertext = Buffer.from(message.encrypted, 'base64');
+  if (!ed25519.verify(hexToKey(message.signature), signedBytes(message.senderKey, ciphertext, nonce), state.signingPublicKey)) {
+    throw new Error('Invalid sender key signature');
+  }
+
+  let messageKey = state.skipped.get(iteration);
+  let chainKey = state.chainKey;
+  const skipped = new Map(state.skipped);
+
+  if (messageKey) {
+    skipped.delete(iteration);
+  } else {
+    if (iteration < state.iteration) {
+      throw new Error('Message key already used');
+    }
+    if (iteration - state.iteration > MAX_SENDER_KEY_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    for (let i = state.iteration; i < iteration; i++) {
+      const step = kdfChainKey(chainKey);
+      skipped.set(i, step.messageKey);
+      chainKey = step.chainKey;
+    }
+    const step = kdfChainKey(chainKey);
+    messageKey = step.messageKey;
+    chainKey = step.chainKey;
+  }
+
+  const cipher = xchacha20poly1305(messageKey, nonce, associatedData(state, iteration));
+  const plaintext = new TextDecoder().decode(cipher.decrypt(ciphertext));
+
+  // Bound memory: drop the oldest keys first
+  while (skipped.size > MAX_SENDER_KEY_SKIP) {
+    skipped.delete(skipped.keys().next().value as number);
+  }
+
+  if (iteration >= state.iteration) {
+    state.chainKey = chainKey;
+    state.iteration = iteration + 1;
+  }
+  state.skipped = skipped;
+
+  return plaintext;
+}
+
+/**
+ * Serialize a sender key for storage
+ */
+export function serializeSenderKey(state: SenderKeyState): SerializedSenderKeyState {
+  return {
+    version: 1,
+    conversationId: state.conversationId,
+    did: state.did,
+    keyEpoch: state.keyEpoch,
+    keyId: state.keyId,
+    chainKey: keyToHex(state.chainKey),
+    iteration: state.iteration,
+    signingPublicKey: keyToHex(state.signingPublicKey),
+    signingPrivateKey: state.signingPrivateKey ? keyToHex(state.signingPrivateKey) : null,
+    skipped: Array.from(state.skipped, ([i, key]) => [i, keyToHex(key)]),
+  };
+}
+
+/**
+ * Restore a sender key from serializeSenderKey output
+ */
+export function deserializeSenderKey(data: SerializedSenderKeyState): SenderKeyState {
+  if (data.version !== 1) {
+    throw new Error(`Unsupported sender key version: ${data.version}`);
+  }
+
+  return {
+    conversationId: data.conversationId,
+    did: data.did,
+    keyEpoch: data.keyEpoch,
+    keyId: data.keyId,
+    chainKey: hexToKey(data.chainKey),
+    iteration: data.iteration,
+    signingPublicKey: hexToKey(data.signingPublicKey),
+    signingPrivateKey: data.signingPrivateKey ? hexToKey(data.signingPrivateKey) : null,
+    skipped: new Map(data.skipped.map(([i, hex]) => [i, hexToKey(hex)])),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { asc, sql } from 'drizzle-orm';
+import { db, migrated, devices, publicKeys, keyLog, keyLogNodes } from '@/test/db';
+import { merkleRoot, inclusionProof, consistencyProof, verifyInclusion } from './merkle';
+import {
+  appendKeyLog,
+  getTreeSize,
+  getTreeHead,
+  proveInclusion,
+  proveConsistency,
+  type LoggedBundle,
+} from './transparency';
+
+vi.mock('@/db', () => import('@/test/db'));
+
+function bundle(i: number): LoggedBundle {
+  const hex = (n: number) => n.toString(16).padStart(64, '0');
+  return {
+    did: `did:imajin:user${i % 3}`,
+    deviceId: `dev_${i}`,
+    identityKey: hex(i),
+    signedPreKey: hex(i + 1000),
+    signature: hex(i + 2000),
+  };
+}
+
+async function leaves(): Promise<string[]> {
+  const rows = await db.select({ leafHash: keyLog.leafHash }).from(keyLog).orderBy(asc(keyLog.position));
+  return rows.map((row) => row.leafHash);
+}
+
+beforeAll(async () => {
+  await migrated;
+}, 60_000);
+
+describe('key transparency log', () => {
+  it('serves heads and proofs from stored subtrees as the log grows', async () => {
+    for (let i = 0; i < 13; i++) {
+      await appendKeyLog(bundle(i));
+
+      const all = await leaves();
+      const treeSize = await getTreeSize();
+      expect(treeSize).toBe(i + 1);
+      expect((await getTreeHead(treeSize)).rootHash).toBe(merkleRoot(all));
+
+      const entry = await appendKeyLog(bundle(i % 5));
+      const proof = await proveInclusion(entry, treeSize);
+      expect(proof.proof).toEqual(inclusionProof(all, entry.position));
+      expect(verifyInclusion(entry.leafHash, entry.position, treeSize, proof.proof, proof.rootHash)).toBe(true);
+
+      for (let since = 0; since <= treeSize; since++) {
+        expect((await proveConsistency(since, treeSize)).proof).toEqual(consistencyProof(all, since));
+      }
+    }
+
+    // 13 leaves: six pairs, three quads and one subtree of eight
+    const nodes = await db.select().from(keyLogNodes);
+    expect(nodes).toHaveLength(10);
+  }, 60_000);
+
+  it('falls back to the leaves for subtrees that are not stored', async () => {
+    await db.delete(keyLogNodes).where(sql`${keyLogNodes.level} = 2`);
+
+    const all = await leaves();
+    const treeSize = await getTreeSize();
+    expect((await getTreeHead(treeSize)).rootHash).toBe(merkleRoot(all));
+    expect((await proveConsistency(5, treeSize)).proof).toEqual(consistencyProof(all, 5));
+  });
+
+  it('logs a bundle in the transaction that stores it', async () => {
+    const stored = bundle(200);
+    const size = await getTreeSize();
+
+    // No such device: the bundle insert fails, and so does its log entry
+    await expect(appendKeyLog(stored, db.insert(publicKeys).values(stored))).rejects.toThrow();
+    expect(await getTreeSize()).toBe(size);
+
+    await db.insert(devices).values({ id: stored.deviceId, did: stored.did, status: 'active' });
+    const entry = await appendKeyLog(stored, db.insert(publicKeys).values(stored));
+    expect(entry.position).toBe(size);
+
+    // Storing the same bundle again doesn't log it twice
+    const again = await appendKeyLog(stored, db.update(publicKeys).set({ updatedAt: new Date() }));
+    expect(again.position).toBe(size);
+    expect(await getTreeSize()).toBe(size + 1);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Key transparency log
+ *
+ * Every bundle published through POST /api/keys is appended to `key_log`, a
+ * Merkle tree whose leaves never change (see ./merkle.ts). Appends also store
+ * each complete subtree they finish in `key_log_nodes`, so tree heads and
+ * proofs take O(log n) stored hashes instead of the whole log. Key lookups
+ * come with an inclusion proof against the current tree head, and
+ * GET /api/keys/log serves consistency proofs between heads. A server that
+ * shows different keys to different people, or quietly rewrites a bundle, has
+ * to fork the log, which clients comparing tree heads (with each other or over
+ * time) will notice - and heads are signed with the log's key, so a forked
+ * pair is proof of it.
+ * Owners should watch the entries for their own DID.
+ */
+
+import { eq, and, or, asc, desc, gte, lt, inArray, notExists, max, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { ed25519 } from '@noble/curves/ed25519';
+import { db, keyLog, keyLogNodes, type KeyLogEntry } from '@/db';
+import {
+  hashLeaf,
+  hashChildren,
+  merkleRoot,
+  rootFromSubtrees,
+  inclusionProofFromSubtrees,
+  consistencyProofFromSubtrees,
+  treeHeadSignatureInput,
+  type SignedTreeHead,
+  type SubtreeLookup,
+} from './merkle';
+import { keyToHex, hexToKey } from './crypto';
+
+export interface LoggedBundle {
+  did: string;
+  deviceId: string;
+  identityKey: string;
+  signedPreKey: string;
+  signature: string;
+}
+
+export interface TreeHead {
+  treeSize: number;
+  rootHash: string;
+}
+
+export interface InclusionProof extends TreeHead {
+  leafIndex: number;
+  leafHash: string;
+  proof: string[];
+}
+
+/** Advisory lock key serializing appends */
+const APPEND_LOCK = 0x6b65796c6f67; // 'keylog'
+
+/**
+ * Canonical leaf data for a bundle - clients hash this themselves to check a proof
+ */
+export function serializeLogEntry(bundle: LoggedBundle): string {
+  return JSON.stringify([
+    1,
+    bundle.did,
+    bundle.deviceId,
+    bundle.identityKey,
+    bundle.signedPreKey,
+    bundle.signature,
+  ]);
+}
+
+function isSameBundle(entry: KeyLogEntry, bundle: LoggedBundle): boolean {
+  return entry.did === bundle.did &&
+    entry.identityKey === bundle.identityKey &&
+    entry.signedPreKey === bundle.signedPreKey &&
+    entry.signature === bundle.signature;
+}
+
+/**
+ * The device's latest log entry, if it is the bundle it serves now
+ */
+export async function findLogEntry(bundle: LoggedBundle): Promise<KeyLogEntry | null> {
+  const latest = await db.query.keyLog.findFirst({
+    where: eq(keyLog.deviceId, bundle.deviceId),
+    orderBy: [desc(keyLog.position)],
+  });
+  return latest && isSameBundle(latest, bundle) ? latest : null;
+}
+
+/**
+ * The newest entry logging exactly `bundle`
+ */
+async function findBundleEntry(bundle: LoggedBundle): Promise<KeyLogEntry | undefined> {
+  return db.query.keyLog.findFirst({
+    where: and(
+      eq(keyLog.deviceId, bundle.deviceId),
+      eq(keyLog.did, bundle.did),
+      eq(keyLog.identityKey, bundle.identityKey),
+      eq(keyLog.signedPreKey, bundle.signedPreKey),
+      eq(keyLog.signature, bundle.signature)
+    ),
+    orderBy: [desc(keyLog.position)],
+  });
+}
+
+/**
+ * Append a bundle unless it is already the device's latest entry, in one
+ * db.batch() with `write` - the query that publishes the bundle - so a bundle
+ * is never visible without its log entry.
+ * Appends take a transaction lock, so positions have no gaps and a later
+ * position is never visible before an earlier one.
+ */
+export async function appendKeyLog(bundle: LoggedBundle, write?: BatchItem<'pg'>): Promise<KeyLogEntry> {
+  const latestIsBundle = db
+    .select({ position: keyLog.position })
+    .from(keyLog)
+    .where(
+      and(
+        inArray(
+          keyLog.position,
+          db.select({ position: max(keyLog.position) }).from(keyLog).where(eq(keyLog.deviceId, bundle.deviceId))
+        ),
+        eq(keyLog.did, bundle.did),
+        eq(keyLog.identityKey, bundle.identityKey),
+        eq(keyLog.signedPreKey, bundle.signedPreKey),
+        eq(keyLog.signature, bundle.signature)
+      )
+    );
+
+  const column = (name: keyof KeyLogEntry) => sql.identifier(keyLog[name].name);
+  const insertLeaf = db.execute(sql`
+    insert into ${keyLog} (${column('position')}, ${column('did')}, ${column('deviceId')}, ${column('identityKey')}, ${column('signedPreKey')}, ${column('signature')}, ${column('leafHash')})
+    select (select coalesce(max(${keyLog.position}), -1) + 1 from ${keyLog}),
+      ${bundle.did}, ${bundle.deviceId}, ${bundle.identityKey}, ${bundle.signedPreKey}, ${bundle.signature},
+      ${hashLeaf(serializeLogEntry(bundle))}
+    where ${notExists(latestIsBundle)}
+  `);
+  const lock = db.execute(sql`select pg_advisory_xact_lock(${APPEND_LOCK})`);
+
+  if (write) {
+    await db.batch([lock, write, insertLeaf]);
+  } else {
+    await db.batch([lock, insertLeaf]);
+  }
+
+  const entry = await findBundleEntry(bundle);
+  if (!entry) {
+    throw new Error('Could not append to key log');
+  }
+
+  await storeSubtrees(entry);
+  return entry;
+}
+
+/**
+ * Store the complete subtrees a new leaf finishes: the one at each level L
+ * where position + 1 is a multiple of 2^L
+ */
+async function storeSubtrees(entry: KeyLogEntry): Promise<void> {
+  let hash = entry.leafHash;
+
+  for (let level = 1; (entry.position + 1) % 2 ** level === 0; level++) {
+    const index = entry.position >> level;
+    const hashes = await loadSubtrees([[level - 1, index * 2]]);
+    hash = hashChildren(hashes.get(subtreeKey(level - 1, index * 2))!, hash);
+
+    await db.insert(keyLogNodes).values({ level, index, hash }).onConflictDoNothing();
+  }
+}
+
+function subtreeKey(level: number, index: number): string {
+  return `${level}/${index}`;
+}
+
+/**
+ * Hashes of complete subtrees, keyed by subtreeKey. Leaves come from
+ * `key_log`; a subtree an append hasn't stored yet is hashed from its leaves.
+ */
+async function loadSubtrees(wanted: Array<[number, number]>): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+
+  const leafPositions = wanted.filter(([level]) => level === 0).map(([, index]) => index);
+  if (leafPositions.length > 0) {
+    const leaves = await db
+      .select({ position: keyLog.position, leafHash: keyLog.leafHash })
+      .from(keyLog)
+      .where(inArray(keyLog.position, leafPositions));
+    for (const leaf of leaves) hashes.set(subtreeKey(0, leaf.position), leaf.leafHash);
+  }
+
+  const nodes = wanted.filter(([level]) => level > 0);
+  if (nodes.length > 0) {
+    const rows = await db
+      .select()
+      .from(keyLogNodes)
+      .where(or(...nodes.map(([level, index]) => and(eq(keyLogNodes.level, level), eq(keyLogNodes.index, index)))));
+    for (const row of rows) hashes.set(subtreeKey(row.level, row.index), row.hash);
+  }
+
+  for (const [level, index] of wanted) {
+    if (hashes.has(subtreeKey(level, index))) continue;
+
+    const size = 2 ** level;
+    const leaves = await db
+      .select({ leafHash: keyLog.leafHash })
+      .from(keyLog)
+      .where(and(gte(keyLog.position, index * size), lt(keyLog.position, (index + 1) * size)))
+      .orderBy(asc(keyLog.position));
+    if (leaves.length !== size) {
+      throw new Error(`Key log subtree ${subtreeKey(level, index)} is incomplete`);
+    }
+    hashes.set(subtreeKey(level, index), merkleRoot(leaves.map((leaf) => leaf.leafHash)));
+  }
+
+  return hashes;
+}
+
+/**
+ * Run a root or proof computation (see ./merkle.ts) over the stored subtrees:
+ * a first pass collects the subtrees it reads, which are then loaded at once
+ */
+async function fromStoredSubtrees<T>(compute: (subtree: SubtreeLookup) => T): Promise<T> {
+  const wanted: Array<[number, number]> = [];
+  compute((level, index) => {
+    wanted.push([level, index]);
+    return '00'.repeat(32);
+  });
+
+  const hashes = await loadSubtrees(wanted);
+  return compute((level, index) => hashes.get(subtreeKey(level, index))!);
+}
+
+/**
+ * Number of entries in the log
+ */
+export async function getTreeSize(): Promise<number> {
+  const [row] = await db.select({ last: max(keyLog.position) }).from(keyLog);
+  return row?.last == null ? 0 : row.last + 1;
+}
+
+/**
+ * Tree head of the first `treeSize` entries
+ */
+export async function getTreeHead(treeSize: number): Promise<TreeHead> {
+  return {
+    treeSize,
+    rootHash: await fromStoredSubtrees((subtree) => rootFromSubtrees(subtree, treeSize)),
+  };
+}
+
+function logSigningKey(): Uint8Array {
+  const key = process.env.KEY_LOG_SIGNING_KEY;
+  if (!key) {
+    throw new Error('KEY_LOG_SIGNING_KEY is not set');
+  }
+  return hexToKey(key);
+}
+
+/**
+ * The log's Ed25519 public key, which clients pin to check signed tree heads
+ */
+export function getLogPublicKey(): string {
+  return keyToHex(ed25519.getPublicKey(logSigningKey()));
+}
+
+/**
+ * Sign a tree head as of now with the log's key (KEY_LOG_SIGNING_KEY)
+ */
+export function signTreeHead(head: TreeHead): SignedTreeHead {
+  const unsigned = { treeSize: head.treeSize, timestamp: Date.now(), rootHash: head.rootHash };
+  return { ...unsigned, signature: keyToHex(ed25519.sign(treeHeadSignatureInput(unsigned), logSigningKey())) };
+}
+
+/**
+ * Inclusion proof for a log entry against the tree of `treeSize` entries
+ */
+export async function proveInclusion(entry: KeyLogEntry, treeSize: number): Promise<InclusionProof> {
+  const { rootHash, proof } = await fromStoredSubtrees((subtree) => ({
+    rootHash: rootFromSubtrees(subtree, treeSize),
+    proof: inclusionProofFromSubtrees(subtree, treeSize, entry.position),
+  }));
+
+  return { treeSize, rootHash, leafIndex: entry.position, leafHash: entry.leafHash, proof };
+}
+
+/**
+ * Tree head plus a proof that the head of size `since` is a prefix of it
+ */
+export async function proveConsistency(since: number, treeSize: number) {
+  const { rootHash, proof } = await fromStoredSubtrees((subtree) => ({
+    rootHash: rootFromSubtrees(subtree, treeSize),
+    proof: consistencyProofFromSubtrees(subtree, treeSize, since),
+  }));
+
+  return { treeSize, rootHash, since, proof };
+}
+
+/**
+ * Log entries, optionally for one DID
+ */
+export async function getLogEntries(options: { did?: string; start: number; limit: number }) {
+  return db.query.keyLog.findMany({
+    where: and(
+      gte(keyLog.position, options.start),
+      options.did ? eq(keyLog.did, options.did) : undefined
+    ),
+    orderBy: [asc(keyLog.position)],
+    limit: options.limit,
+  });
+}
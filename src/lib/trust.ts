@@ -0,0 +1,177 @@
+/**
+ * Trust-bound conversations and trust extension
+ *
+ * A trust-bound group can only be seen (through invite previews) and joined
+ * by DIDs within `trustRadius` hops of one of its members in the connections
+ * graph (./connections.ts). Checked on invite accept and participant add;
+ * existing members are never removed when the graph changes.
+ */
+
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { db, participants, trustAttestations, type Conversation, type TrustAttestationRow } from '@/db';
+import { getConnectionsGraph } from './connections';
+import type { TrustAttestation } from './crypto';
+import { generateId } from './utils';
+
+export const CONVERSATION_VISIBILITIES = ['private', 'trust-bound'] as const;
+export type ConversationVisibility = (typeof CONVERSATION_VISIBILITIES)[number];
+
+export const DEFAULT_TRUST_RADIUS = 2;
+export const MAX_TRUST_RADIUS = 6;
+
+/**
+ * Validate visibility settings for a conversation of `type`. Returns the
+ * values to store; trustRadius is only kept for trust-bound conversations.
+ */
+export function validateVisibility(
+  type: string,
+  visibility: unknown,
+  trustRadius: unknown
+): { visibility: ConversationVisibility; trustRadius: number | null } | { error: string } {
+  if (!CONVERSATION_VISIBILITIES.includes(visibility as ConversationVisibility)) {
+    return { error: `visibility must be one of: ${CONVERSATION_VISIBILITIES.join(', ')}` };
+  }
+
+  if (visibility === 'private') {
+    return { visibility, trustRadius: null };
+  }
+
+  if (type !== 'group') {
+    return { error: 'Only group conversations can be trust-bound' };
+  }
+
+  const radius = trustRadius ?? DEFAULT_TRUST_RADIUS;
+  if (typeof radius !== 'number' || !Number.isInteger(radius) || radius < 1 || radius > MAX_TRUST_RADIUS) {
+    return { error: `trustRadius must be an integer from 1 to ${MAX_TRUST_RADIUS}` };
+  }
+
+  return { visibility: 'trust-bound', trustRadius: radius };
+}
+
+/**
+ * Whether `did` may see or join the conversation. `members` defaults to its
+ * current participants.
+ */
+export async function checkTrustRadius(
+  conversation: Pick<Conversation, 'id' | 'visibility' | 'trustRadius'>,
+  did: string,
+  members?: string[]
+): Promise<{ error: string; status: number } | null> {
+  if (conversation.visibility !== 'trust-bound') return null;
+
+  const memberDids = members ?? (
+    await db.query.participants.findMany({
+      where: eq(participants.conversationId, conversation.id),
+      columns: { did: true },
+    })
+  ).map((p) => p.did);
+
+  const radius = conversation.trustRadius ?? DEFAULT_TRUST_RADIUS;
+
+  let distance: number | null;
+  try {
+    distance = await getConnectionsGraph().distance(did, memberDids, radius);
+  } catch (error) {
+    console.error('Connections lookup failed:', error);
+    return { error: 'Connections service unavailable', status: 503 };
+  }
+
+  if (distance === null) {
+    return { error: `Only DIDs within ${radius} hops of a member can join this conversation`, status: 403 };
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Trust extension
+// A member vouches for another member of the same group. The DIDs go into
+// participants.trustExtendedTo; the signed statement (see
+// signTrustAttestation in ./crypto.ts) is kept for export to the connections
+// service.
+// ---------------------------------------------------------------------------
+
+/** How far issuedAt may be from the server's clock */
+export const ATTESTATION_MAX_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Public view of an attestation - verifiable with the issuer's DID key
+ */
+export function toAttestationView(row: TrustAttestationRow) {
+  return {
+    id: row.id,
+    attestation: {
+      issuer: row.issuerDid,
+      subject: row.subjectDid,
+      conversationId: row.conversationId,
+      issuedAt: row.issuedAt,
+    },
+    signature: row.signature,
+    revokedAt: row.revokedAt,
+  };
+}
+
+/**
+ * Record that `issuer` extends trust to `subject` in a group. The caller has
+ * checked membership and the signature.
+ */
+export async function extendTrust(attestation: TrustAttestation, signature: string): Promise<TrustAttestationRow> {
+  const [row] = await db
+    .insert(trustAttestations)
+    .values({
+      id: generateId('ta'),
+      conversationId: attestation.conversationId,
+      issuerDid: attestation.issuer,
+      subjectDid: attestation.subject,
+      issuedAt: attestation.issuedAt,
+      signature,
+    })
+    .onConflictDoUpdate({
+      target: [trustAttestations.conversationId, trustAttestations.issuerDid, trustAttestations.subjectDid],
+      set: { issuedAt: attestation.issuedAt, signature, revokedAt: null },
+    })
+    .returning();
+
+  await db
+    .update(participants)
+    .set({ trustExtendedTo: sql`coalesce(${participants.trustExtendedTo}, '[]'::jsonb) || jsonb_build_array(${attestation.subject}::text)` })
+    .where(
+      and(
+        eq(participants.conversationId, attestation.conversationId),
+        eq(participants.did, attestation.issuer),
+        sql`not coalesce(${participants.trustExtendedTo}, '[]'::jsonb) @> jsonb_build_array(${attestation.subject}::text)`
+      )
+    );
+
+  return row;
+}
+
+/**
+ * Withdraw trust; false if it wasn't extended
+ */
+export async function revokeTrust(conversationId: string, issuerDid: string, subjectDid: string): Promise<boolean> {
+  const [row] = await db
+    .update(trustAttestations)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(trustAttestations.conversationId, conversationId),
+        eq(trustAttestations.issuerDid, issuerDid),
+        eq(trustAttestations.subjectDid, subjectDid),
+        isNull(trustAttestations.revokedAt)
+      )
+    )
+    .returning({ id: trustAttestations.id });
+
+  await db
+    .update(participants)
+    .set({ trustExtendedTo: sql`coalesce(${participants.trustExtendedTo}, '[]'::jsonb) - ${subjectDid}::text` })
+    .where(
+      and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, issuerDid)
+      )
+    );
+
+  return Boolean(row);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { db, migrated, conversations, participants } from '@/test/db';
+import { publishToConversation } from './realtime';
+import { setTyping, clearTyping, TYPING_THROTTLE_MS, TYPING_TTL_MS } from './typing';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('./realtime', () => ({ publishToConversation: vi.fn(async () => {}) }));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CONVERSATION_ID = 'conv_typing';
+
+const published = vi.mocked(publishToConversation);
+
+function broadcasts(): boolean[] {
+  return published.mock.calls.map(([, event]) => (event as { isTyping: boolean }).isTyping);
+}
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'readonly' },
+  ]);
+}, 60_000);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+});
+
+afterEach(() => {
+  clearTyping(CONVERSATION_ID, ALICE);
+  vi.advanceTimersByTime(TYPING_TTL_MS);
+  vi.useRealTimers();
+  published.mockClear();
+});
+
+describe('setTyping', () => {
+  it('throttles stops as well as starts, sending the last state when the window ends', async () => {
+    await setTyping(CONVERSATION_ID, ALICE, true);
+    await setTyping(CONVERSATION_ID, ALICE, false);
+    await setTyping(CONVERSATION_ID, ALICE, true);
+    await setTyping(CONVERSATION_ID, ALICE, false);
+    expect(broadcasts()).toEqual([true]);
+
+    vi.advanceTimersByTime(TYPING_THROTTLE_MS);
+    expect(broadcasts()).toEqual([true, false]);
+
+    await setTyping(CONVERSATION_ID, ALICE, true);
+    expect(broadcasts()).toEqual([true, false]);
+  });
+
+  it('announces a stop when typing expires', async () => {
+    await Promise.all([setTyping(CONVERSATION_ID, ALICE, true), setTyping(CONVERSATION_ID, ALICE, true)]);
+    expect(broadcasts()).toEqual([true]);
+
+    vi.advanceTimersByTime(TYPING_TTL_MS);
+    expect(broadcasts()).toEqual([true, false]);
+  });
+
+  it('does not announce non-participants or read-only participants', async () => {
+    expect(await setTyping(CONVERSATION_ID, 'did:imajin:mallory', true)).toHaveProperty('error');
+    expect(await setTyping(CONVERSATION_ID, BOB, true)).toEqual({ ok: true });
+    expect(broadcasts()).toEqual([]);
+  });
+});
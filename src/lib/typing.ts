@@ -0,0 +1,158 @@
+/**
+ * Typing indicators
+ *
+ * Ephemeral per-(conversation, DID) state held by the instance the typer's
+ * socket is connected to. Broadcasts, starts and stops alike, are throttled
+ * to one per TYPING_THROTTLE_MS per typer, and state expires on its own after
+ * TYPING_TTL_MS without a refresh.
+ */
+
+import { eq, and } from 'drizzle-orm';
+import { db, participants } from '@/db';
+import { publishToConversation } from './realtime';
+
+export const TYPING_THROTTLE_MS = 3_000;
+export const TYPING_TTL_MS = 6_000;
+
+interface Announcement {
+  isTyping: boolean;
+  at: number;
+  pending?: ReturnType<typeof setTimeout>;
+  forget?: ReturnType<typeof setTimeout>;
+}
+
+/** Expiry timers of DIDs currently typing */
+const typing = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Last broadcast per (conversation, DID). Kept across stops so stopping and
+ * starting again doesn't escape the throttle; a "stopped" one is forgotten
+ * once its throttle window has passed.
+ */
+const announced = new Map<string, Announcement>();
+
+function key(conversationId: string, did: string): string {
+  return `${conversationId}:${did}`;
+}
+
+function broadcast(conversationId: string, did: string, isTyping: boolean): Promise<void> {
+  return publishToConversation(conversationId, { type: 'typing', conversationId, did, isTyping });
+}
+
+function logFailure(error: unknown): void {
+  console.error('Failed to broadcast typing:', error);
+}
+
+function record(k: string, isTyping: boolean, at: number): void {
+  const previous = announced.get(k);
+  if (previous) {
+    clearTimeout(previous.pending);
+    clearTimeout(previous.forget);
+  }
+
+  const announcement: Announcement = { isTyping, at };
+  if (!isTyping) {
+    announcement.forget = setTimeout(() => {
+      if (announced.get(k) === announcement) announced.delete(k);
+    }, at + TYPING_THROTTLE_MS - Date.now());
+  }
+  announced.set(k, announcement);
+}
+
+/**
+ * Broadcast the current typing state if it needs saying: a start, a stop after
+ * a start, or a refresh of a start once the throttle window has passed. Inside
+ * the window a change is held back and sent as the window ends, with whatever
+ * the state is by then.
+ */
+function announce(conversationId: string, did: string, onlyIfChanged = false): Promise<void> {
+  const k = key(conversationId, did);
+  const isTyping = typing.has(k);
+  const last = announced.get(k);
+
+  if (!isTyping && !last?.isTyping) return Promise.resolve();
+  if (last?.pending) return Promise.resolve();
+  if (last && last.isTyping === isTyping && onlyIfChanged) return Promise.resolve();
+
+  const now = Date.now();
+  const wait = last ? last.at + TYPING_THROTTLE_MS - now : 0;
+  if (wait > 0) {
+    if (last!.isTyping !== isTyping) {
+      last!.pending = setTimeout(() => {
+        last!.pending = undefined;
+        announce(conversationId, did, true).catch(logFailure);
+      }, wait);
+    }
+    return Promise.resolve();
+  }
+
+  record(k, isTyping, now);
+  return broadcast(conversationId, did, isTyping);
+}
+
+/**
+ * Drop typing state without broadcasting (e.g. the typer just sent a message,
+ * which clients already treat as the end of typing)
+ */
+export function clearTyping(conversationId: string, did: string): void {
+  const k = key(conversationId, did);
+  const expiry = typing.get(k);
+  if (!expiry) return;
+  clearTimeout(expiry);
+  typing.delete(k);
+
+  const last = announced.get(k);
+  if (last?.isTyping) record(k, false, last.at);
+}
+
+/**
+ * Update typing state for a DID in a conversation
+ */
+export async function setTyping(
+  conversationId: string,
+  did: string,
+  isTyping: boolean
+): Promise<{ ok: true } | { error: string }> {
+  const k = key(conversationId, did);
+
+  if (!isTyping) {
+    const expiry = typing.get(k);
+    if (expiry) {
+      clearTimeout(expiry);
+      typing.delete(k);
+      await announce(conversationId, did);
+    }
+    return { ok: true };
+  }
+
+  // Membership is checked when typing starts; refreshes just push the expiry back
+  if (!typing.has(k)) {
+    const participant = await db.query.participants.findFirst({
+      where: and(
+        eq(participants.conversationId, conversationId),
+        eq(participants.did, did)
+      ),
+    });
+
+    if (!participant) {
+      clearTyping(conversationId, did);
+      return { error: 'Conversation not found or access denied' };
+    }
+
+    // Read-only participants can't send, so there is nothing to announce
+    if (participant.role === 'readonly') {
+      return { ok: true };
+    }
+  }
+
+  // Another call may have set a timer while this one awaited: replace it
+  clearTimeout(typing.get(k));
+  typing.set(k, setTimeout(() => {
+    typing.delete(k);
+    announce(conversationId, did).catch(logFailure);
+  }, TYPING_TTL_MS));
+
+  await announce(conversationId, did);
+
+  return { ok: true };
+}
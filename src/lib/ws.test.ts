@@ -0,0 +1,100 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { WebSocket, type WebSocketServer } from 'ws';
+import { db, migrated, conversations, participants } from '@/test/db';
+import { attachWebSocketServer, WS_PATH } from './ws';
+import { publishToConversation } from './realtime';
+
+vi.mock('@/db', () => import('@/test/db'));
+vi.mock('@/lib/auth', () => import('@/test/auth'));
+
+const ALICE = 'did:imajin:alice';
+const BOB = 'did:imajin:bob';
+const CONVERSATION_ID = 'conv_ws';
+
+let server: Server;
+let wss: WebSocketServer;
+let url: string;
+
+beforeAll(async () => {
+  await migrated;
+  await db.insert(conversations).values({ id: CONVERSATION_ID, type: 'group', createdBy: ALICE });
+  await db.insert(participants).values([
+    { conversationId: CONVERSATION_ID, did: ALICE, role: 'owner' },
+    { conversationId: CONVERSATION_ID, did: BOB, role: 'member' },
+  ]);
+
+  server = createServer();
+  wss = attachWebSocketServer(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}${WS_PATH}`;
+}, 60_000);
+
+afterAll(async () => {
+  wss.clients.forEach((ws) => ws.terminate());
+  await new Promise((resolve) => wss.close(resolve));
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Socket that queues the frames it receives; `next(type)` waits for one
+ */
+async function open() {
+  const ws = new WebSocket(url);
+  const frames: Record<string, unknown>[] = [];
+  const waiting: (() => void)[] = [];
+
+  ws.on('message', (data) => {
+    frames.push(JSON.parse(data.toString()));
+    waiting.splice(0).forEach((wake) => wake());
+  });
+  await new Promise((resolve, reject) => ws.once('open', resolve).once('error', reject));
+
+  async function next(type: string): Promise<Record<string, unknown>> {
+    for (;;) {
+      const index = frames.findIndex((frame) => frame.type === type);
+      if (index >= 0) return frames.splice(index, 1)[0];
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+  }
+
+  return { ws, frames, next, send: (payload: object) => ws.send(JSON.stringify(payload)) };
+}
+
+describe('/ws', () => {
+  it('needs a connect frame before anything else', async () => {
+    const client = await open();
+    client.send({ type: 'typing', conversationId: CONVERSATION_ID, isTyping: true });
+    expect(await client.next('error')).toMatchObject({ error: 'Not authenticated' });
+    client.ws.close();
+  });
+
+  it('subscribes a connected socket to its conversations and delivers their events', async () => {
+    const client = await open();
+    client.send({ type: 'connect', token: BOB });
+    expect(await client.next('connected')).toEqual({ type: 'connected', did: BOB, conversations: [CONVERSATION_ID] });
+
+    await publishToConversation(CONVERSATION_ID, { type: 'conversation.deleted', conversationId: CONVERSATION_ID });
+    expect(await client.next('conversation.deleted')).toMatchObject({ conversationId: CONVERSATION_ID });
+
+    client.send({ type: 'connect', token: BOB });
+    expect(await client.next('error')).toMatchObject({ error: 'Already connected' });
+    client.ws.close();
+  });
+
+  it('relays typing to the other participants only', async () => {
+    const alice = await open();
+    const bob = await open();
+    alice.send({ type: 'connect', token: ALICE });
+    bob.send({ type: 'connect', token: BOB });
+    await Promise.all([alice.next('connected'), bob.next('connected')]);
+
+    alice.send({ type: 'typing', conversationId: CONVERSATION_ID, isTyping: true });
+    expect(await bob.next('typing')).toMatchObject({ conversationId: CONVERSATION_ID, did: ALICE, isTyping: true });
+    expect(alice.frames.filter((frame) => frame.type === 'typing')).toEqual([]);
+
+    alice.ws.close();
+    bob.ws.close();
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * WebSocket server for real-time delivery (/ws)
+ *
+ * Protocol: the client opens the socket and sends { type: 'connect', token }.
+ * Once verified, the socket is subscribed to every conversation the DID
+ * participates in and receives events from ./realtime.ts as JSON frames.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { eq } from 'drizzle-orm';
+import { db, participants } from '@/db';
+import { verifyToken } from './auth';
+import { subscribeConversation, subscribeUser, type RealtimeFrame } from './realtime';
+import { setTyping, clearTyping } from './typing';
+import { connectPresence, disconnectPresence, startPresenceRefresh } from './presence';
+import { markRead } from './receipts';
+import { getBlockRelations } from './blocks';
+
+export const WS_PATH = '/ws';
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+type UpgradeHandler = (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+
+interface ClientState {
+  did: string | null;
+  alive: boolean;
+  present: boolean;
+  conversations: Map<string, () => void>;
+  typingIn: Set<string>;
+  blocked: Set<string>;      // DIDs this socket's owner blocked
+  blockedBy: Set<string>;    // DIDs that blocked the owner
+  unsubscribeUser: (() => void) | null;
+}
+
+/**
+ * Frames sent by clients. Fields are validated per event type.
+ */
+interface ClientEvent {
+  type?: string;
+  token?: unknown;
+  conversationId?: unknown;
+  isTyping?: unknown;
+  lastReadMessageId?: unknown;
+}
+
+const clients = new WeakMap<WebSocket, ClientState>();
+
+function send(ws: WebSocket, payload: object): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
+
+/**
+ * Whether a conversation event must not reach this socket: messages from
+ * DIDs the owner blocked, and presence or typing across a block either way
+ */
+function isHidden(state: ClientState, event: RealtimeFrame): boolean {
+  if (event.type === 'message' || event.type === 'message.edited') {
+    return state.blocked.has(event.fromDid);
+  }
+  if (event.type === 'typing' || event.type === 'presence') {
+    return state.blocked.has(event.did) || state.blockedBy.has(event.did);
+  }
+  return false;
+}
+
+async function loadBlocks(state: ClientState): Promise<void> {
+  const { blocked, blockedBy } = await getBlockRelations(state.did!);
+  state.blocked = blocked;
+  state.blockedBy = blockedBy;
+}
+
+function joinConversation(ws: WebSocket, state: ClientState, conversationId: string): void {
+  if (state.conversations.has(conversationId)) return;
+  state.conversations.set(
+    conversationId,
+    subscribeConversation(conversationId, (event) => {
+      if (event.type === 'typing' && event.did === state.did) return;
+      if (event.type === 'message') {
+        clearTyping(conversationId, event.fromDid);
+      }
+      if (isHidden(state, event)) return;
+      send(ws, event);
+      if (event.type === 'conversation.deleted') {
+        leaveConversation(state, conversationId);
+      }
+    })
+  );
+}
+
+function leaveConversation(state: ClientState, conversationId: string): void {
+  state.conversations.get(conversationId)?.();
+  state.conversations.delete(conversationId);
+}
+
+function handleUserEvent(ws: WebSocket, state: ClientState, event: RealtimeFrame): void {
+  if (event.type === 'blocks.changed') {
+    loadBlocks(state).catch((error) => {
+      console.error('Failed to reload blocks:', error);
+    });
+    return;
+  }
+  if (event.type === 'conversation.joined') {
+    joinConversation(ws, state, event.conversationId);
+  } else if (event.type === 'conversation.left') {
+    leaveConversation(state, event.conversationId);
+  }
+  send(ws, event);
+}
+
+async function handleConnect(ws: WebSocket, state: ClientState, token: unknown): Promise<void> {
+  if (typeof token !== 'string' || !token) {
+    send(ws, { type: 'error', error: 'token is required' });
+    ws.close(4001, 'Unauthorized');
+    return;
+  }
+
+  const authResult = await verifyToken(token);
+  if ('error' in authResult) {
+    send(ws, { type: 'error', error: authResult.error });
+    ws.close(authResult.status === 401 ? 4001 : 1011, authResult.error);
+    return;
+  }
+
+  // Socket may have closed while the auth service was answering
+  if (ws.readyState !== WebSocket.OPEN) return;
+
+  const { identity } = authResult;
+  state.did = identity.id;
+
+  // Subscribe to membership changes before loading memberships so a join
+  // that lands in between is not missed
+  state.unsubscribeUser = subscribeUser(identity.id, (event) => handleUserEvent(ws, state, event));
+  await loadBlocks(state);
+
+  const memberships = await db
+    .select({ conversationId: participants.conversationId })
+    .from(participants)
+    .where(eq(participants.did, identity.id));
+
+  for (const { conversationId } of memberships) {
+    joinConversation(ws, state, conversationId);
+  }
+
+  if (ws.readyState !== WebSocket.OPEN) {
+    cleanup(state);
+    return;
+  }
+
+  send(ws, {
+    type: 'connected',
+    did: identity.id,
+    conversations: memberships.map((m) => m.conversationId),
+  });
+
+  state.present = true;
+  await connectPresence(identity.id);
+}
+
+async function handleTyping(ws: WebSocket, state: ClientState, payload: ClientEvent): Promise<void> {
+  const { conversationId, isTyping } = payload;
+  if (typeof conversationId !== 'string' || typeof isTyping !== 'boolean') {
+    send(ws, { type: 'error', error: 'conversationId and isTyping are required' });
+    return;
+  }
+
+  const result = await setTyping(conversationId, state.did!, isTyping);
+  if ('error' in result) {
+    send(ws, { type: 'error', error: result.error });
+    return;
+  }
+
+  if (isTyping) {
+    state.typingIn.add(conversationId);
+  } else {
+    state.typingIn.delete(conversationId);
+  }
+}
+
+async function handleRead(ws: WebSocket, state: ClientState, payload: ClientEvent): Promise<void> {
+  const { conversationId, lastReadMessageId } = payload;
+  if (typeof conversationId !== 'string') {
+    send(ws, { type: 'error', error: 'conversationId is required' });
+    return;
+  }
+  if (lastReadMessageId !== undefined && typeof lastReadMessageId !== 'string') {
+    send(ws, { type: 'error', error: 'lastReadMessageId must be a string' });
+    return;
+  }
+
+  const result = await markRead(conversationId, state.did!, lastReadMessageId);
+  if ('error' in result) {
+    send(ws, { type: 'error', error: result.error });
+  }
+}
+
+function cleanup(state: ClientState): void {
+  if (state.did) {
+    for (const conversationId of Array.from(state.typingIn)) {
+      setTyping(conversationId, state.did, false).catch((error) => {
+        console.error('Failed to clear typing state:', error);
+      });
+    }
+  }
+  if (state.did && state.present) {
+    state.present = false;
+    disconnectPresence(state.did).catch((error) => {
+      console.error('Failed to update presence:', error);
+    });
+  }
+  state.typingIn.clear();
+  state.conversations.forEach((unsubscribe) => unsubscribe());
+  state.conversations.clear();
+  state.unsubscribeUser?.();
+  state.unsubscribeUser = null;
+}
+
+function handleConnection(ws: WebSocket): void {
+  const state: ClientState = {
+    did: null,
+    alive: true,
+    present: false,
+    conversations: new Map(),
+    typingIn: new Set(),
+    blocked: new Set(),
+    blockedBy: new Set(),
+    unsubscribeUser: null,
+  };
+  let connecting = false;
+
+  const connectTimer = setTimeout(() => {
+    if (!state.did) {
+      ws.close(4001, 'Connect timeout');
+    }
+  }, CONNECT_TIMEOUT_MS);
+
+  ws.on('pong', () => {
+    state.alive = true;
+  });
+
+  ws.on('message', async (data) => {
+    let payload: ClientEvent;
+    try {
+      payload = JSON.parse(data.toString());
+    } catch {
+      send(ws, { type: 'error', error: 'Invalid JSON' });
+      return;
+    }
+
+    if (payload.type === 'connect') {
+      if (state.did || connecting) {
+        send(ws, { type: 'error', error: 'Already connected' });
+        return;
+      }
+      connecting = true;
+      try {
+        await handleConnect(ws, state, payload.token);
+      } catch (error) {
+        console.error('WebSocket connect failed:', error);
+        send(ws, { type: 'error', error: 'Failed to connect' });
+        ws.close(1011, 'Failed to connect');
+      } finally {
+        connecting = false;
+        clearTimeout(connectTimer);
+      }
+      return;
+    }
+
+    if (!state.did) {
+      send(ws, { type: 'error', error: 'Not authenticated' });
+      return;
+    }
+
+    try {
+      switch (payload.type) {
+        case 'typing':
+          await handleTyping(ws, state, payload);
+          break;
+        case 'read':
+          await handleRead(ws, state, payload);
+          break;
+        default:
+          send(ws, { type: 'error', error: `Unsupported event type: ${payload.type}` });
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${payload.type} event:`, error);
+      send(ws, { type: 'error', error: `Failed to handle ${payload.type} event` });
+    }
+  });
+
+  ws.on('close', () => {
+    clearTimeout(connectTimer);
+    cleanup(state);
+  });
+
+  ws.on('error', (error) => {
+    console.error('WebSocket error:', error);
+  });
+
+  clients.set(ws, state);
+}
+
+/**
+ * Attach the /ws endpoint to an HTTP server.
+ * Upgrades for other paths (e.g. Next's HMR socket) go to `fallback`.
+ */
+export function attachWebSocketServer(server: Server, fallback?: UpgradeHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  wss.on('connection', handleConnection);
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === WS_PATH) {
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    } else if (fallback) {
+      fallback(req, socket, head);
+    } else {
+      socket.destroy();
+    }
+  });
+
+  // Drop sockets that stop answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      const state = clients.get(ws);
+      if (!state) return;
+      if (!state.alive) {
+        ws.terminate();
+        return;
+      }
+      state.alive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const stopPresenceRefresh = startPresenceRefresh();
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    stopPresenceRefresh();
+  });
+
+  return wss;
+}
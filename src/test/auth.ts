@@ -0,0 +1,61 @@
+/**
+ * Stand-in for the auth service in route tests: the bearer token is the DID,
+ * and each DID's Ed25519 key is derived from it (authPrivateKey).
+ *
+ *   vi.mock('@/lib/auth', () => import('@/test/auth'));
+ */
+
+import { NextRequest } from 'next/server';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { keyToHex } from '@/lib/crypto';
+import type { AuthError, AuthResult, Identity } from '@/lib/auth';
+
+export type { Identity, AuthResult, AuthError };
+
+/**
+ * The auth service's Ed25519 private key for `did`
+ */
+export function authPrivateKey(did: string): Uint8Array {
+  return sha256(new TextEncoder().encode(did));
+}
+
+export async function verifyToken(token: string): Promise<AuthResult | AuthError> {
+  return { identity: { id: token, publicKey: keyToHex(ed25519.getPublicKey(authPrivateKey(token))), type: 'human' } };
+}
+
+export async function requireAuth(request: NextRequest): Promise<AuthResult | AuthError> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return { error: 'Missing or invalid Authorization header', status: 401 };
+  }
+  return verifyToken(authHeader.slice(7));
+}
+
+export async function optionalAuth(request: NextRequest): Promise<Identity | null> {
+  const result = await requireAuth(request);
+  return 'error' in result ? null : result.identity;
+}
+
+/**
+ * Request to a route handler, authenticated as `did`
+ */
+export function authedRequest(
+  did: string,
+  path: string,
+  init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+): NextRequest {
+  const { body } = init;
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? 'GET',
+    headers: { Authorization: `Bearer ${did}`, ...init.headers },
+    body: body === undefined ? undefined : body instanceof Uint8Array ? (body as BodyInit) : JSON.stringify(body),
+  });
+}
+
+/**
+ * Route context for a dynamic segment
+ */
+export function routeParams<T extends Record<string, string>>(params: T): { params: Promise<T> } {
+  return { params: Promise.resolve(params) };
+}
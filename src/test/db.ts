@@ -0,0 +1,40 @@
+/**
+ * In-process Postgres (PGlite) with every migration applied, standing in for
+ * Neon in route tests:
+ *
+ *   vi.mock('@/db', () => import('@/test/db'));
+ *
+ * Each test file gets its own empty database; await `migrated` before using it.
+ */
+
+import { resolve } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '@/db/schema';
+
+const client = new PGlite();
+
+/**
+ * neon-http's batch: the queries run in order, in one transaction
+ */
+async function batch<T extends readonly PromiseLike<unknown>[]>(queries: T) {
+  await client.exec('BEGIN');
+  try {
+    const results: unknown[] = [];
+    for (const query of queries) {
+      results.push(await query);
+    }
+    await client.exec('COMMIT');
+    return results as { [K in keyof T]: Awaited<T[K]> };
+  } catch (error) {
+    await client.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+export const db = Object.assign(drizzle(client, { schema }), { batch });
+
+export const migrated = migrate(db, { migrationsFolder: resolve(__dirname, '../../drizzle') });
+
+export * from '@/db/schema';
@@ -0,0 +1,54 @@
+/**
+ * Key bundle uploads for route tests, signed the way a client signs them
+ */
+
+import { POST as uploadKeys } from '@/app/api/keys/route';
+import { generateKeyPair, keyToHex, signDeviceProof, signPreKey, type KeyPair } from '@/lib/crypto';
+import { authedRequest, authPrivateKey } from './auth';
+
+export interface TestBundle {
+  identity: KeyPair;
+  signedPreKey: KeyPair;
+  oneTimePreKeys: KeyPair[];
+}
+
+/**
+ * New key pairs for a device: identity, signed pre-key and `oneTimePreKeys` one-time pre-keys
+ */
+export function generateBundle(oneTimePreKeys = 0): TestBundle {
+  return {
+    identity: generateKeyPair(),
+    signedPreKey: generateKeyPair(),
+    oneTimePreKeys: Array.from({ length: oneTimePreKeys }, () => generateKeyPair()),
+  };
+}
+
+/**
+ * POST /api/keys as `deviceId` of `did`, proving it holds the bundle's identity key.
+ * The signed pre-key is signed with `did`'s auth key unless `preKeySigner` is given.
+ */
+export function uploadBundle(
+  did: string,
+  deviceId: string,
+  bundle: TestBundle,
+  options: { replaceIdentityKey?: boolean; proofKey?: KeyPair; preKeySigner?: Uint8Array } = {}
+) {
+  const identityKey = keyToHex(bundle.identity.publicKey);
+  const signedPreKey = keyToHex(bundle.signedPreKey.publicKey);
+  const statement = { action: 'key-bundle', did, deviceId, identityKey, signedPreKey };
+  const proofKey = options.proofKey ?? bundle.identity;
+
+  return uploadKeys(
+    authedRequest(did, '/api/keys', {
+      method: 'POST',
+      body: {
+        identityKey,
+        signedPreKey,
+        signature: signPreKey(bundle.signedPreKey.publicKey, options.preKeySigner ?? authPrivateKey(did)),
+        oneTimePreKeys: bundle.oneTimePreKeys.map((key) => keyToHex(key.publicKey)),
+        replaceIdentityKey: options.replaceIdentityKey,
+      },
+      headers: { 'X-Device-Id': deviceId, 'X-Device-Proof': signDeviceProof(statement, proofKey.privateKey) },
+    })
+  );
+}